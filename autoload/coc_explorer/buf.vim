@@ -17,3 +17,11 @@ else
     return coc_explorer#buf#create_by_name(name)
   endfunction
 endif
+
+function! coc_explorer#buf#open_editable(name, lines) abort
+  execute 'silent keepalt botright new' fnameescape(a:name)
+  setlocal buftype=acwrite bufhidden=wipe noswapfile nobuflisted
+  call setline(1, a:lines)
+  setlocal nomodified
+  return bufnr('%')
+endfunction
@@ -0,0 +1,48 @@
+import { parseOriginalActionExp } from '../mappings';
+import { ActionSource } from './actionSource';
+
+const nodes = [{ uid: 'a' }, { uid: 'b' }];
+
+function createActionSource() {
+  const source = {
+    sourceType: 'test',
+    selectedNodes: new Set(),
+    view: {
+      currentNode: () => nodes[0],
+      requestRenderNodes: () => {},
+    },
+  };
+  const global = { actions: new Map() };
+  const action = new ActionSource<any, any>(source, global as any);
+  const called: Record<string, string[]> = {};
+  for (const name of ['a', 'b']) {
+    action.addNodesAction(
+      name,
+      ({ nodes }) => {
+        called[name] = nodes.map((node) => node.uid);
+      },
+      name,
+    );
+  }
+  return { action, called };
+}
+
+test('condition action', async () => {
+  const { action, called } = createActionSource();
+  action.addConditionRule('first?', {
+    filter: (_s, n) => n.uid === 'a',
+    getHelpDescription: () => 'first?',
+    description: 'first node',
+  });
+  await action.doActionExp(parseOriginalActionExp(['first?', 'a', 'b']), nodes);
+  expect(called).toEqual({ a: ['a'], b: ['b'] });
+});
+
+test('unregistered condition action goes to the false branch', async () => {
+  const { action, called } = createActionSource();
+  await action.doActionExp(
+    parseOriginalActionExp(['directory?', 'a', 'b']),
+    nodes,
+  );
+  expect(called).toEqual({ b: ['a', 'b'] });
+});
@@ -6,7 +6,13 @@ import { flatten, logger, partition, uniq } from '../util';
 import { ActionExplorer } from './actionExplorer';
 import { ActionMenu } from './menu';
 import { ActionRegistrar } from './registrar';
-import { conditionActionRules, noopAction, waitAction } from './special';
+import {
+  ConditionActionRule,
+  conditionActionRules,
+  isConditionAction,
+  noopAction,
+  waitAction,
+} from './special';
 import { ActionExp, MappingMode } from './types';
 
 export class ActionSource<
@@ -15,6 +21,8 @@ export class ActionSource<
 > extends ActionRegistrar<S, TreeNode> {
   public readonly global: ActionExplorer;
   public readonly source = this.owner;
+  private readonly conditionRules = new Map<string, ConditionActionRule<any>>();
+  private readonly warnedConditions = new Set<string>();
 
   constructor(public readonly owner: S, globalActionRegistrar: ActionExplorer) {
     super(owner);
@@ -38,6 +46,37 @@ export class ActionSource<
     );
   }
 
+  /**
+   * Register the condition rule of source, override the global one with same name
+   */
+  addConditionRule(name: string, rule: ConditionActionRule<TreeNode>) {
+    if (!isConditionAction(name)) {
+      throw new Error(`Condition name(${name}) must end with ?`);
+    }
+    this.conditionRules.set(name, rule);
+  }
+
+  registeredConditionRules(): Map<string, ConditionActionRule> {
+    return new Map([
+      ...Object.entries(conditionActionRules),
+      ...this.conditionRules,
+    ]);
+  }
+
+  registeredConditionRule(name: string): ConditionActionRule | undefined {
+    return this.conditionRules.get(name) ?? conditionActionRules[name];
+  }
+
+  private warnUnregisteredCondition(name: string) {
+    if (this.warnedConditions.has(name)) {
+      return;
+    }
+    this.warnedConditions.add(name);
+    logger.warn(
+      `condition(${name}) is not registered in the ${this.source.sourceType} source`,
+    );
+  }
+
   async doActionExp(
     actionExp: ActionExp,
     nodes: TreeNode[],
@@ -96,10 +135,15 @@ export class ActionSource<
           }
 
           // condition action
-          const rule = conditionActionRules[action.name];
-          if (rule) {
-            const [trueNodes, falseNodes] = partition(curNodes, (node) =>
-              rule.filter(this.source, node, action.args),
+          if (isConditionAction(action.name)) {
+            const rule = this.registeredConditionRule(action.name);
+            if (!rule) {
+              this.warnUnregisteredCondition(action.name);
+            }
+            // all nodes go to the false branch without the rule of this source
+            const [trueNodes, falseNodes] = partition(
+              curNodes,
+              (node) => !!rule?.filter(this.source, node, action.args),
             );
             const [trueAction, falseAction] = [
               actionExp[i + 1],
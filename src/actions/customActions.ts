@@ -0,0 +1,117 @@
+import { window, workspace } from 'coc.nvim';
+import pathLib from 'path';
+import { gitManager } from '../git/manager';
+import { BaseTreeNode, ExplorerSource } from '../source/source';
+import { Explorer } from '../types/pkg-config';
+import { execCmdLine, logger, renderTemplate, shellescape } from '../util';
+import { ActionExplorer } from './actionExplorer';
+import { ActionSource } from './actionSource';
+
+type CustomAction = NonNullable<Explorer['explorer.customActions']>[string];
+
+async function getPlaceholderValues(
+  source: ExplorerSource<any>,
+  nodes: BaseTreeNode<any>[],
+  escape: (s: string) => string | Promise<string>,
+) {
+  const fullpaths = nodes
+    .map((node) => node.fullpath)
+    .filter((fullpath): fullpath is string => !!fullpath);
+  const node = nodes.find((node) => node.fullpath);
+  const fullpath = node?.fullpath ?? source.root;
+  const dir = node?.expandable ? fullpath : pathLib.dirname(fullpath);
+  const gitRoot = await gitManager.getGitRoot(dir);
+  const escapeAll = async (paths: string[]) =>
+    (await Promise.all(paths.map(escape))).join(' ');
+  return {
+    path: await escape(fullpath),
+    paths: await escapeAll(fullpaths.length ? fullpaths : [fullpath]),
+    name: await escape(pathLib.basename(fullpath)),
+    dir: await escape(dir),
+    root: await escape(source.root),
+    gitRoot: gitRoot ? await escape(gitRoot) : undefined,
+  };
+}
+
+async function runCustomAction(
+  name: string,
+  customAction: CustomAction,
+  source: ExplorerSource<any>,
+  nodes: BaseTreeNode<any>[],
+) {
+  const { nvim } = workspace;
+  const { type = 'shell', terminal = false, output = 'message' } = customAction;
+  const values = await getPlaceholderValues(
+    source,
+    nodes,
+    type === 'vim'
+      ? async (s) => (await nvim.call('fnameescape', [s])) as string
+      : shellescape,
+  );
+  let content: string;
+  try {
+    const command = renderTemplate(customAction.command, values);
+    if (type === 'vim') {
+      content = (await nvim.call('execute', [command])) as string;
+    } else if (terminal) {
+      await window.runTerminalCommand(command, source.root);
+      return;
+    } else {
+      content = await execCmdLine(command, { cwd: source.root });
+    }
+  } catch (error) {
+    window.showMessage(
+      `Custom action(${name}) failed: ${(error as Error).message}`,
+      'error',
+    );
+    return;
+  }
+
+  content = content.trim();
+  if (!content) {
+    return;
+  }
+  if (output === 'message') {
+    window.showMessage(content);
+  } else if (output === 'float') {
+    await window.showDialog({ title: name, content });
+  }
+}
+
+/**
+ * Report the custom actions shadowed by the actions of source,
+ * called after the source registered its actions
+ */
+export function checkCustomActions(
+  action: ActionSource<ExplorerSource<any>, any>,
+) {
+  const customActions = action.source.config.get('customActions');
+  for (const name of Object.keys(customActions)) {
+    if (action.actions.has(name)) {
+      logger.error(
+        `Custom action(${name}) conflicts with the action of ${action.source.sourceType} source`,
+      );
+    }
+  }
+}
+
+/**
+ * Register the actions from `explorer.customActions`
+ */
+export function loadCustomActions(action: ActionExplorer) {
+  const customActions = action.explorer.config.get('customActions');
+  for (const [name, customAction] of Object.entries(customActions)) {
+    if (action.actions.has(name)) {
+      logger.error(`Custom action(${name}) conflicts with the builtin action`);
+      continue;
+    }
+    action.addNodesAction(
+      name,
+      async ({ source, nodes }) => {
+        await runCustomAction(name, customAction, source, nodes);
+      },
+      customAction.description ?? `custom action: ${customAction.command}`,
+      { select: true, reload: customAction.reload ?? false },
+    );
+  }
+}
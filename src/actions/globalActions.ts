@@ -1,5 +1,5 @@
 import { compactI } from 'coc-helper';
-import { workspace } from 'coc.nvim';
+import { window, workspace } from 'coc.nvim';
 import { gitManager } from '../git/manager';
 import { parseOriginalActionExp } from '../mappings';
 import {
@@ -7,6 +7,8 @@ import {
   collapseOptionList,
   ExpandOption,
   expandOptionList,
+  FilterType,
+  filterTypeList,
   MoveStrategy,
   moveStrategyList,
   OpenCursorPosition,
@@ -20,7 +22,14 @@ import {
   textobjTypeList,
 } from '../types';
 import { PreviewActionStrategy } from '../types/pkg-config';
-import { enableWrapscan, input, scanIndexNext, scanIndexPrev } from '../util';
+import {
+  enableWrapscan,
+  input,
+  scanIndexNext,
+  scanIndexPrev,
+  throttleFn,
+  vimInput,
+} from '../util';
 import { ActionExplorer } from './actionExplorer';
 import { openAction } from './openAction';
 
@@ -89,12 +98,21 @@ export function loadGlobalActions(action: ActionExplorer) {
       } else if (node.location) {
         const { range } = node.location;
         cursorPosition = { lineIndex: range.start.line - 1 };
+        if (range.start.character > 0) {
+          cursorPosition.columnIndex = range.start.character;
+        }
       }
 
-      await openAction(explorer, source, node, () => node.fullpath!, {
-        openStrategy,
-        cursorPosition,
-      });
+      await openAction(
+        explorer,
+        source,
+        node,
+        () => source.resolveFullpath(node),
+        {
+          openStrategy,
+          cursorPosition,
+        },
+      );
     },
     'open file or directory',
     {
@@ -475,6 +493,9 @@ export function loadGlobalActions(action: ActionExplorer) {
       menus: {
         labeling: 'preview for node labeling',
         content: 'preview for node content',
+        directory: 'preview for the entries of directory',
+        metadata: 'preview for file metadata',
+        diff: 'preview for git diff of node',
       },
     },
   );
@@ -524,8 +545,11 @@ export function loadGlobalActions(action: ActionExplorer) {
         'toggle:labeling': 'toggle labeling',
         'toggle:labeling:200': 'toggle labeling with debounce',
         'toggle:content': 'toggle content',
+        'toggle:directory': 'toggle directory',
+        'toggle:metadata': 'toggle metadata',
         'enable:content': 'enable with content',
         'enable:labeling': 'enable with labeling',
+        'toggle:diff': 'toggle git diff',
       },
     },
   );
@@ -781,10 +805,71 @@ export function loadGlobalActions(action: ActionExplorer) {
       },
     },
   );
+  action.addNodeAction(
+    'filter',
+    async ({ source, args }) => {
+      const type = (args[0] ??
+        explorer.config.get('filter.type')) as FilterType;
+      if (!filterTypeList.includes(type)) {
+        window.showMessage(`Unknown filter type: ${type}`, 'error');
+        return;
+      }
+      const { filter } = source.view;
+      filter.start(type);
+
+      // live update while typing in the vim cmdline,
+      // the float input does not fire CmdlineChanged, so always use vimInput
+      const updateFilter = throttleFn(
+        100,
+        async (pattern: string) => {
+          await filter.update(pattern);
+          nvim.command('redraw', true);
+        },
+        { leading: true, trailing: true },
+      );
+      const disposable = workspace.registerAutocmd({
+        event: 'CmdlineChanged',
+        pattern: '@',
+        arglist: ['getcmdline()'],
+        callback: updateFilter,
+      });
+      let pattern: string;
+      try {
+        pattern = await vimInput(`Filter(${type}):`, filter.pattern);
+      } finally {
+        disposable.dispose();
+        updateFilter.dispose();
+      }
+
+      if (!pattern) {
+        await filter.stop();
+        return;
+      }
+      await filter.update(pattern);
+    },
+    'filter nodes as you type, esc to restore',
+    {
+      args: [
+        {
+          name: 'filter type',
+          description: `${filterTypeList.join(
+            ' | ',
+          )}, default: explorer.filter.type`,
+        },
+      ],
+      menus: {
+        fuzzy: 'fuzzy match',
+        glob: 'glob match',
+        regex: 'regular expression match',
+      },
+    },
+  );
   action.addNodeAction(
     'esc',
     async ({ source, mode }) => {
-      if (source.explorer.isFloating && mode === 'n') {
+      if (source.view.filter.active) {
+        await source.view.filter.stop();
+      } else if (source.explorer.isFloating && mode === 'n') {
         await source.explorer.quit();
       } else {
         source.view.requestRenderNodes(Array.from(source.selectedNodes));
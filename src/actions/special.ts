@@ -1,27 +1,120 @@
+import pathLib from 'path';
+import { diagnosticManager } from '../diagnostic/manager';
+import { gitManager } from '../git/manager';
+import { GitFormat } from '../git/types';
 import { BaseTreeNode, ExplorerSource } from '../source/source';
 
-export const conditionActionRules: Record<
-  string,
-  {
-    filter: (
-      s: ExplorerSource<any>,
-      n: BaseTreeNode<any>,
-      args: string[],
-    ) => boolean | undefined;
-    getHelpDescription: (args: string[]) => string;
-  }
-> = {
+export interface ConditionActionRule<
+  TreeNode extends BaseTreeNode<TreeNode> = BaseTreeNode<any>,
+> {
+  filter: (
+    s: ExplorerSource<TreeNode>,
+    n: TreeNode,
+    args: string[],
+  ) => boolean | undefined;
+  getHelpDescription: (args: string[]) => string;
+  /**
+   * The arguments and description in the help view
+   */
+  args?: string;
+  description: string;
+}
+
+/**
+ * The name of condition action must end with `?`,
+ * e.g. `['expandable?', 'expand', 'open']`
+ */
+export function isConditionAction(name: string) {
+  return name.endsWith('?');
+}
+
+const gitFormatNames = Object.keys(GitFormat) as (keyof typeof GitFormat)[];
+
+export const conditionActionRules: Record<string, ConditionActionRule> = {
   'expandable?': {
     filter: (_s, n) => n.expandable,
     getHelpDescription: () => 'expandable?',
+    description: 'node is expandable',
   },
   'expanded?': {
     filter: (s, n) => s.view.isExpanded(n),
     getHelpDescription: () => 'expanded?',
+    description: 'node is expanded',
   },
   'type?': {
     filter: (_s, n, args) => n.type === args[0],
     getHelpDescription: (args) => `type is ${args[0]}`,
+    args: '<type>',
+    description: 'type of node is the type',
+  },
+  'selected?': {
+    filter: (s, n) => s.isSelectedNode(n),
+    getHelpDescription: () => 'selected?',
+    description: 'node is selected',
+  },
+  'source?': {
+    filter: (s, _n, args) => args.includes(s.sourceType),
+    getHelpDescription: (args) => `source is ${args.join(' or ')}`,
+    args: '<source>[:<source>]',
+    description: 'type of source is one of the sources',
+  },
+  'ext?': {
+    filter: (_s, n, args) => {
+      if (!n.fullpath) {
+        return false;
+      }
+      const filename = pathLib.basename(n.fullpath).toLowerCase();
+      return args.some((ext) => filename.endsWith(`.${ext.toLowerCase()}`));
+    },
+    getHelpDescription: (args) => `extension is ${args.join(' or ')}`,
+    args: '<extension>[:<extension>]',
+    description: 'file extension is one of the extensions, e.g. ext?:ts:tsx',
+  },
+  'gitStatus?': {
+    filter: (_s, n, args) => {
+      if (!n.fullpath) {
+        return false;
+      }
+      const status = gitManager.getMixedStatus(n.fullpath, !!n.expandable);
+      if (!status) {
+        return false;
+      }
+      if (!args.length) {
+        return (
+          status.x !== GitFormat.ignored &&
+          (status.x !== GitFormat.unmodified ||
+            status.y !== GitFormat.unmodified)
+        );
+      }
+      return args.some((name) => {
+        const format = GitFormat[name as keyof typeof GitFormat];
+        return status.x === format || status.y === format;
+      });
+    },
+    getHelpDescription: (args) =>
+      args.length ? `git status is ${args.join(' or ')}` : 'git changed',
+    args: '[<status>]',
+    description: `git status is ${gitFormatNames.join(
+      ' | ',
+    )}, or changed without status`,
+  },
+  'diagnostic?': {
+    filter: (_s, n, args) => {
+      if (!n.fullpath) {
+        return false;
+      }
+      const types = args.length ? args : ['error', 'warning'];
+      return (
+        (types.includes('error') &&
+          !!diagnosticManager.getMixedError(n.fullpath)) ||
+        (types.includes('warning') &&
+          !!diagnosticManager.getMixedWarning(n.fullpath))
+      );
+    },
+    getHelpDescription: (args) =>
+      args.length ? `has diagnostic ${args.join(' or ')}` : 'has diagnostic',
+    args: '[error | warning]',
+    description: 'has diagnostic of the type, or any type without type',
   },
 };
 
@@ -0,0 +1,268 @@
+import { internalHighlightGroups } from '../highlight/internalColors';
+import { hlGroupManager } from '../highlight/manager';
+import { HighlightCommand } from '../highlight/types';
+import { ColumnRegistrar } from '../source/columnRegistrar';
+import {
+  BaseTreeNode,
+  ExplorerSource,
+  ExplorerSourceClass,
+} from '../source/source';
+import { ViewSource } from '../view/viewSource';
+import {
+  ExplorerApiNode,
+  ExplorerApiSourceContext,
+  ExplorerSourceProvider,
+} from './types';
+
+export interface ApiNode extends BaseTreeNode<ApiNode, 'root' | 'child'> {
+  /**
+   * The node of provider, undefined for the root node
+   */
+  item?: ExplorerApiNode;
+}
+
+class ApiColumnRegistrar extends ColumnRegistrar<
+  ApiNode,
+  ExplorerSource<ApiNode>
+> {}
+
+const defaultChildTemplate = '[selection | 1] [indent][icon | 1] [name]';
+const defaultChildLabelingTemplate = '[name][fullpath]';
+
+function toHighlightName(name: string) {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function createHighlights(name: string, provider: ExplorerSourceProvider) {
+  const prefix = `Api${toHighlightName(name)}`;
+  const hlg = (key: string, target: string) =>
+    hlGroupManager.linkGroup(`${prefix}${toHighlightName(key)}`, target);
+  const builtin = {
+    title: hlg('Root', 'Constant'),
+    expandIcon: hlg('ExpandIcon', 'Directory'),
+    name: hlg('Name', 'None'),
+    fullpath: hlg('Fullpath', internalHighlightGroups.CommentColor),
+  };
+  const custom: Record<string, HighlightCommand> = {};
+  for (const [key, target] of Object.entries(provider.highlights ?? {})) {
+    custom[key] = hlg(key, target);
+  }
+  return {
+    builtin,
+    resolve: (highlight: string) => custom[highlight] ?? highlight,
+  };
+}
+
+function createColumnRegistrar(
+  provider: ExplorerSourceProvider,
+  highlights: ReturnType<typeof createHighlights>,
+  title: string,
+) {
+  const registrar = new ApiColumnRegistrar();
+  const { builtin } = highlights;
+
+  registrar.registerColumn('root', 'icon', ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          row.add(
+            source.view.isExpanded(node)
+              ? source.icons.expanded
+              : source.icons.collapsed,
+            { hl: builtin.expandIcon },
+          );
+        },
+      };
+    },
+  }));
+  registrar.registerColumn('root', 'title', () => ({
+    draw() {
+      return {
+        drawNode(row) {
+          row.add(title, { hl: builtin.title });
+        },
+      };
+    },
+  }));
+
+  registrar.registerColumn('child', 'selection', ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          if (source.isSelectedNode(node)) {
+            row.add(source.icons.selected);
+          }
+        },
+      };
+    },
+  }));
+  registrar.registerColumn('child', 'indent', () => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          row.add('  '.repeat((node.level ?? 1) - 1));
+        },
+      };
+    },
+  }));
+  registrar.registerColumn('child', 'icon', ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          if (node.expandable) {
+            row.add(
+              source.view.isExpanded(node)
+                ? source.icons.expanded
+                : source.icons.collapsed,
+              { hl: builtin.expandIcon },
+            );
+          }
+        },
+      };
+    },
+  }));
+  registrar.registerColumn('child', 'name', ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          source.view.filter.drawName(row, node, { hl: builtin.name });
+        },
+      };
+    },
+  }));
+  registrar.registerColumn('child', 'fullpath', () => ({
+    draw() {
+      return {
+        labelOnly: true,
+        drawNode(row, { node }) {
+          if (node.fullpath) {
+            row.add(node.fullpath, { hl: builtin.fullpath });
+          }
+        },
+      };
+    },
+  }));
+
+  for (const [columnName, column] of Object.entries(provider.columns ?? {})) {
+    registrar.registerColumn('child', columnName, ({ source }) => ({
+      draw() {
+        return {
+          drawNode(row, { node, isLabeling }) {
+            if (!node.item) {
+              return;
+            }
+            const cells = column.draw(node.item, {
+              expanded: source.view.isExpanded(node),
+              selected: source.isSelectedNode(node),
+              isLabeling,
+            });
+            if (cells === undefined) {
+              return;
+            }
+            for (const cell of Array.isArray(cells) ? cells : [cells]) {
+              const { text, highlight } =
+                typeof cell === 'string'
+                  ? { text: cell, highlight: undefined }
+                  : cell;
+              row.add(text, {
+                hl: highlight ? highlights.resolve(highlight) : undefined,
+              });
+            }
+          },
+        };
+      },
+    }));
+  }
+
+  return registrar;
+}
+
+/**
+ * Create the source class from the provider of the plugin API
+ */
+export function createApiSourceClass(
+  name: string,
+  provider: ExplorerSourceProvider,
+): ExplorerSourceClass {
+  const highlights = createHighlights(name, provider);
+  const columnRegistrar = createColumnRegistrar(
+    provider,
+    highlights,
+    provider.title ?? `[${name.toUpperCase()}]`,
+  );
+
+  return class ApiSource extends ExplorerSource<ApiNode> {
+    view: ViewSource<ApiNode> = new ViewSource<ApiNode>(this, columnRegistrar, {
+      type: 'root',
+      isRoot: true,
+      expandable: true,
+      uid: this.helper.getUid('0'),
+      name,
+    });
+
+    static get enabled(): boolean | Promise<boolean> {
+      return provider.enabled?.() ?? true;
+    }
+
+    get apiContext(): ExplorerApiSourceContext {
+      return {
+        root: this.explorer.root,
+        reload: () => this.load(this.view.rootNode),
+      };
+    }
+
+    async init() {
+      for (const [actionName, action] of Object.entries(
+        provider.actions ?? {},
+      )) {
+        this.action.addNodesAction(
+          actionName,
+          async ({ nodes, args }) => {
+            await action.callback({
+              nodes: nodes
+                .map((node) => node.item)
+                .filter((item): item is ExplorerApiNode => !!item),
+              args,
+              source: this.apiContext,
+            });
+          },
+          action.description,
+          {
+            select: action.select ?? false,
+            reload: action.reload ?? false,
+            args: action.args,
+            menus: action.menus,
+          },
+        );
+      }
+    }
+
+    async open() {
+      await this.view.parseTemplate('root', '[icon] [title]');
+      await this.view.parseTemplate(
+        'child',
+        provider.template ?? defaultChildTemplate,
+        provider.labelingTemplate ?? defaultChildLabelingTemplate,
+      );
+    }
+
+    async loadChildren(parentNode: ApiNode): Promise<ApiNode[]> {
+      const items = await provider.loadChildren(
+        parentNode.item,
+        this.apiContext,
+      );
+      return items.map((item) => ({
+        type: 'child',
+        uid: this.helper.getUid(item.id),
+        name: item.name,
+        expandable: item.expandable,
+        fullpath: item.fullpath,
+        location: item.location,
+        item,
+      }));
+    }
+  };
+}
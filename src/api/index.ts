@@ -0,0 +1,36 @@
+import { Disposable } from 'coc.nvim';
+import { ExplorerManager } from '../explorerManager';
+import { sourceManager } from '../source/sourceManager';
+import { createApiSourceClass } from './apiSource';
+import { ExplorerApi, ExplorerApiNode, ExplorerSourceProvider } from './types';
+
+/**
+ * The API returned by the activate of extension for other extensions
+ */
+export function createExplorerApi(
+  explorerManager: ExplorerManager,
+): ExplorerApi {
+  return {
+    registerSource<Node extends ExplorerApiNode>(
+      name: string,
+      provider: ExplorerSourceProvider<Node>,
+    ): Disposable {
+      if (name in sourceManager.registeredSources) {
+        throw new Error(`explorer source(${name}) already exists`);
+      }
+      return sourceManager.registerSource(
+        name,
+        createApiSourceClass(name, provider as ExplorerSourceProvider),
+      );
+    },
+    async reloadSource(name: string) {
+      for (const explorer of explorerManager.explorers()) {
+        for (const source of explorer.sources) {
+          if (source.sourceType === name) {
+            await source.load(source.view.rootNode);
+          }
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import type { Disposable, Location } from 'coc.nvim';
+
+/**
+ * The node provided by the third-party source
+ */
+export interface ExplorerApiNode {
+  /**
+   * Unique id of node in the source
+   */
+  id: string;
+  name: string;
+  /**
+   * Whether the node has children
+   */
+  expandable?: boolean;
+  /**
+   * Used by the open, copyFilepath and preview actions
+   */
+  fullpath?: string;
+  /**
+   * Used to jump to the position when opening
+   */
+  location?: Location;
+}
+
+/**
+ * A part of column, the highlight can be the key of
+ * `ExplorerSourceProvider.highlights` or a vim highlight group
+ */
+export type ExplorerApiCell = string | { text: string; highlight?: string };
+
+export interface ExplorerApiDrawContext {
+  expanded: boolean;
+  selected: boolean;
+  isLabeling: boolean;
+}
+
+export interface ExplorerApiColumn<Node extends ExplorerApiNode> {
+  draw(
+    node: Node,
+    context: ExplorerApiDrawContext,
+  ): ExplorerApiCell | ExplorerApiCell[] | undefined;
+}
+
+export interface ExplorerApiSourceContext {
+  /**
+   * The root path of explorer
+   */
+  root: string;
+  /**
+   * Reload all nodes of the source
+   */
+  reload(): Promise<void>;
+}
+
+export interface ExplorerApiAction<Node extends ExplorerApiNode> {
+  description: string;
+  callback(context: {
+    nodes: Node[];
+    args: string[];
+    source: ExplorerApiSourceContext;
+  }): void | Promise<void>;
+  /**
+   * Use the selected nodes
+   * @default false
+   */
+  select?: boolean;
+  /**
+   * Reload the source after the action
+   * @default false
+   */
+  reload?: boolean;
+  args?: { name: string; description?: string }[];
+  menus?: Record<string, string>;
+}
+
+export interface ExplorerSourceProvider<
+  Node extends ExplorerApiNode = ExplorerApiNode,
+> {
+  /**
+   * The title of root node
+   * @default `[${name.toUpperCase()}]`
+   */
+  title?: string;
+  /**
+   * The template of child node, the builtin columns are
+   * `selection`, `indent`, `icon`, `name` and `fullpath`
+   * @default '[selection | 1] [indent][icon | 1] [name]'
+   */
+  template?: string;
+  labelingTemplate?: string;
+  enabled?(): boolean | Promise<boolean>;
+  /**
+   * Load the children of node, undefined parent means the root
+   */
+  loadChildren(
+    parent: Node | undefined,
+    context: ExplorerApiSourceContext,
+  ): Node[] | Promise<Node[]>;
+  columns?: Record<string, ExplorerApiColumn<Node>>;
+  actions?: Record<string, ExplorerApiAction<Node>>;
+  /**
+   * Highlight groups linked to the vim highlight groups,
+   * e.g. `{ done: 'Comment' }`
+   */
+  highlights?: Record<string, string>;
+}
+
+export interface ExplorerApi {
+  /**
+   * Register a source, the name can be used in `explorer.sources`,
+   * presets and `--sources` like `file` and `buffer`
+   */
+  registerSource<Node extends ExplorerApiNode>(
+    name: string,
+    provider: ExplorerSourceProvider<Node>,
+  ): Disposable;
+  /**
+   * Reload the source in all explorers
+   */
+  reloadSource(name: string): Promise<void>;
+}
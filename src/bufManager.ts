@@ -43,6 +43,12 @@ export class BufManager {
   private nvim = workspace.nvim;
   private reloadSubject = new Subject<void>();
   private modifiedSubject = new Subject<string>();
+  /**
+   * The order of buffers entered, used by the MRU sort order
+   */
+  private enteredOrderById: Map<number, number> = new Map();
+  private enteredCount = 0;
+  private pinnedBufnrs: Set<number> = new Set();
 
   bufferNodes: BufferNode[] = [];
   onReload = subjectToHook(this.reloadSubject);
@@ -77,6 +83,10 @@ export class BufManager {
       internalEvents.on('TabEnter', (bufnr) =>
         tabContainerManager.curTabAddBufnr(bufnr),
       ),
+      onEvent('BufEnter', (bufnr) => {
+        this.enteredCount += 1;
+        this.enteredOrderById.set(bufnr, this.enteredCount);
+      }),
     );
 
     const refreshBufModified = async (bufnr: number) => {
@@ -228,6 +238,33 @@ export class BufManager {
     return false;
   }
 
+  /**
+   * The larger order means the buffer is entered more recently,
+   * 0 means the buffer has not been entered
+   */
+  enteredOrder(bufnr: number): number {
+    return this.enteredOrderById.get(bufnr) ?? 0;
+  }
+
+  /**
+   * Pin or unpin the buffers, the pinned buffers are sorted first
+   * and protected from the bulk close actions
+   */
+  setPinned(bufnrs: number[], pinned: boolean) {
+    for (const bufnr of bufnrs) {
+      if (pinned) {
+        this.pinnedBufnrs.add(bufnr);
+      } else {
+        this.pinnedBufnrs.delete(bufnr);
+      }
+      const bufNode = this.bufferNodeMapById.get(bufnr);
+      if (bufNode) {
+        bufNode.pinned = pinned;
+      }
+    }
+    this.reloadSubject.next();
+  }
+
   getBufferNode(bufnrOrFullpath: number | string) {
     if (typeof bufnrOrFullpath === 'number') {
       return this.bufferNodeMapById.get(bufnrOrFullpath);
@@ -284,6 +321,7 @@ export class BufManager {
               flags.includes('R') || flags.includes('F') || flags.includes('?'),
             modified: flags.includes('+'),
             readErrors: flags.includes('x'),
+            pinned: this.pinnedBufnrs.has(parseInt(bufnr)),
           };
         }),
       ),
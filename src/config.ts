@@ -18,6 +18,8 @@ export interface ExplorerConfig {
   get(
     section: 'file.reveal.filter',
   ): NonNullable<Explorer['explorer.file.reveal.filter']>;
+  get(section: 'file.sort'): NonNullable<Explorer['explorer.file.sort']>;
+  get(section: 'filter.type'): NonNullable<Explorer['explorer.filter.type']>;
   get(section: 'autoExpandMaxDepth'): number;
   get(section: 'autoExpandOptions'): ExpandOption[];
   get(section: 'autoCollapseOptions'): CollapseOption[];
@@ -45,6 +47,9 @@ export interface ExplorerConfig {
     section: 'root.customRules',
   ): NonNullable<Explorer['explorer.root.customRules']>;
   get(section: 'mapping.action.wait.timeout'): number;
+  get(
+    section: 'customActions',
+  ): NonNullable<Explorer['explorer.customActions']>;
   get<T = void>(section: string, defaultValue?: T): T;
 }
 
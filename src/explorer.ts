@@ -10,6 +10,7 @@ import {
 } from 'coc.nvim';
 import pFilter from 'p-filter';
 import { ActionExplorer } from './actions/actionExplorer';
+import { loadCustomActions } from './actions/customActions';
 import { loadGlobalActions } from './actions/globalActions';
 import { MappingMode } from './actions/types';
 import { argOptions, ResolvedArgs } from './arg/argOptions';
@@ -183,6 +184,7 @@ export class Explorer implements Disposable {
     }
 
     loadGlobalActions(this.action);
+    loadCustomActions(this.action);
   }
 
   dispose() {
@@ -7,22 +7,30 @@ import {
   window,
   workspace,
 } from 'coc.nvim';
+import { format } from 'date-fns';
 import { isBinaryFile } from 'isbinaryfile';
+import pathLib from 'path';
+import prettyBytes from 'pretty-bytes';
 import { argOptions } from '../arg/argOptions';
 import { onBufEnter, onCursorMoved, onEvent } from '../events';
 import { Explorer } from '../explorer';
+import { gitManager } from '../git/manager';
+import { GitFormat } from '../git/types';
 import { Drawn } from '../painter/types';
 import { BaseTreeNode, ExplorerSource } from '../source/source';
+import { labelHighlight } from '../source/sourcePainters';
 import { FloatingOpenOptions } from '../types';
 import { PreviewActionStrategy } from '../types/pkg-config';
 import {
   byteLength,
   currentBufnr,
   flatten,
+  formatPermission,
   logger,
   max,
   min,
   readFileLines,
+  readFileMetadata,
   supportedFloat,
 } from '../util';
 import { FloatingWindow } from './floatingWindow';
@@ -217,25 +225,26 @@ export class FloatingPreview implements Disposable {
       };
     });
 
-    this.registerAction('content', async ({ node }) => {
+    this.registerAction('content', async ({ source, node }) => {
       if (node.expandable) {
-        return;
+        return await this.drawChildren(source, node);
       }
 
       let location: Location | undefined;
       if (node.location) {
         location = node.location;
       } else if (node.fullpath) {
-        location = Location.create(node.fullpath, Range.create(0, 0, 0, 0));
+        location = Location.create(
+          await source.resolveFullpath(node),
+          Range.create(0, 0, 0, 0),
+        );
       } else {
         return;
       }
       const { uri, range } = location;
 
       if (await isBinaryFile(uri)) {
-        // Skip binary file, because not supported
-        window.showMessage('Preview content skip binary');
-        return;
+        return await this.drawMetadata(uri, true);
       }
 
       const doc = workspace.getDocument(uri);
@@ -252,6 +261,197 @@ export class FloatingPreview implements Disposable {
         },
       };
     });
+
+    this.registerAction('directory', async ({ source, node }) => {
+      if (!node.expandable) {
+        return;
+      }
+      return await this.drawChildren(source, node);
+    });
+
+    this.registerAction('metadata', async ({ node }) => {
+      if (!node.fullpath) {
+        return;
+      }
+      return await this.drawMetadata(node.fullpath);
+    });
+
+    this.registerAction('diff', async ({ node }) => {
+      if (node.expandable || !node.fullpath) {
+        return;
+      }
+      const fullpath: string = node.fullpath;
+
+      const status = gitManager.getMixedStatus(fullpath, false);
+      if (!status || status.x === GitFormat.ignored) {
+        return;
+      }
+      const root = await gitManager.getGitRoot(pathLib.dirname(fullpath));
+      if (!root) {
+        return;
+      }
+
+      let output: string;
+      if (status.y === GitFormat.untracked) {
+        output = await gitManager.cmd.diff(root, fullpath, {
+          untracked: true,
+        });
+      } else if (status.y !== GitFormat.unmodified) {
+        output = await gitManager.cmd.diff(root, fullpath);
+      } else if (status.x !== GitFormat.unmodified) {
+        output = await gitManager.cmd.diff(root, fullpath, { cached: true });
+      } else {
+        return;
+      }
+
+      // only keep the hunks, skip the header of diff
+      const lines = output.split(/\r?\n/);
+      const hunkStart = lines.findIndex((line) => line.startsWith('@@'));
+      if (hunkStart === -1) {
+        return;
+      }
+
+      return {
+        lines: lines.slice(hunkStart, hunkStart + this.maxHeight),
+        highlights: [],
+        options: {
+          filetype: 'diff',
+        },
+      };
+    });
+  }
+
+  /**
+   * Draw the first entries of node by the child columns of source,
+   * without expanding the node in the explorer
+   */
+  private async drawChildren(
+    source: ExplorerSource<any>,
+    node: BaseTreeNode<any>,
+  ): Promise<PreviewArguments> {
+    const children: BaseTreeNode<any>[] = await source.loadChildren(node);
+    if (!children.length) {
+      return {
+        lines: ['(empty)'],
+        highlights: [],
+      };
+    }
+
+    const entries =
+      children.length > this.maxHeight
+        ? children.slice(0, this.maxHeight - 1)
+        : children;
+    entries.forEach((entry, i) => {
+      entry.level = 1;
+      entry.parent = source.view.rootNode;
+      entry.prevSiblingNode = entries[i - 1];
+      entry.nextSiblingNode = entries[i + 1];
+    });
+    const painters = source.view.sourcePainters;
+    const drawnList =
+      (await source.view.sync(() =>
+        this.explorer.locator.mark.preserve(() =>
+          painters.drawPre(entries, {
+            draw: () =>
+              Promise.all(
+                entries.map((entry, i) => painters.drawNode(entry, i)),
+              ),
+          }),
+        ),
+      )) ?? [];
+
+    const lines = drawnList.map((d) => d.content);
+    if (children.length > entries.length) {
+      lines.push(`... ${children.length - entries.length} more`);
+    }
+    return {
+      lines,
+      highlights: flatten(
+        drawnList.map((d, index) =>
+          d.highlightPositions.map((hl) => ({
+            hlGroup: hl.group,
+            line: index,
+            colStart: hl.start,
+            colEnd: hl.start + hl.size,
+          })),
+        ),
+      ),
+      options: {
+        filetype: 'coc-explorer-labeling',
+      },
+    };
+  }
+
+  /**
+   * Draw the size, permissions, owner, timestamps and MIME type of file,
+   * with the dimensions of image or the first entries of archive
+   */
+  private async drawMetadata(
+    fullpath: string,
+    binary?: boolean,
+  ): Promise<PreviewArguments> {
+    const metadata = await readFileMetadata(fullpath, {
+      entriesLimit: this.maxHeight,
+    });
+    const { stat, dimensions, entries } = metadata;
+    const datetimeFormat = this.explorer.config.get('datetime.format');
+
+    let mimeType = metadata.mimeType;
+    if (!mimeType) {
+      if (stat.isDirectory()) {
+        mimeType = 'inode/directory';
+      } else {
+        mimeType =
+          binary ?? (await isBinaryFile(fullpath))
+            ? 'application/octet-stream'
+            : 'text/plain';
+      }
+    }
+
+    const rows: [label: string, value: string][] = [
+      ['Size', `${prettyBytes(stat.size)} (${stat.size} bytes)`],
+      ['Type', mimeType],
+    ];
+    if (dimensions) {
+      rows.push(['Dimensions', `${dimensions.width}x${dimensions.height}`]);
+    }
+    rows.push(
+      [
+        'Permissions',
+        `${formatPermission(stat.mode)} (${(stat.mode & 0o7777).toString(8)})`,
+      ],
+      ['Owner', `${metadata.owner}:${metadata.group}`],
+      ['Modified', format(stat.mtime, datetimeFormat)],
+      ['Accessed', format(stat.atime, datetimeFormat)],
+      ['Changed', format(stat.ctime, datetimeFormat)],
+      ['Created', format(stat.birthtime, datetimeFormat)],
+    );
+    if (entries) {
+      rows.push([
+        'Entries',
+        entries.total !== undefined
+          ? entries.total.toString()
+          : `${entries.names.length}+`,
+      ]);
+    }
+
+    const labelWidth = max(rows.map(([label]) => label.length))!;
+    const lines = rows.map(
+      ([label, value]) => `${label.padEnd(labelWidth)}  ${value}`,
+    );
+    const highlights: BufferHighlight[] = rows.map(([label], line) => ({
+      hlGroup: labelHighlight.group,
+      line,
+      colStart: 0,
+      colEnd: label.length,
+    }));
+    if (entries) {
+      lines.push(...entries.names.map((name) => `  ${name}`));
+    }
+    return {
+      lines,
+      highlights,
+    };
   }
 
   borderOptions() {
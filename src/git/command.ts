@@ -2,8 +2,8 @@ import { Emitter } from 'coc.nvim';
 import commandExists from 'command-exists';
 import pathLib from 'path';
 import { config } from '../config';
-import { execCmd, fsStat, normalizePath } from '../util';
-import { GitFormat, GitStatus } from './types';
+import { execCmd, execCmdStream, fsStat, normalizePath } from '../util';
+import { GitCommit, GitFormat, GitStatus } from './types';
 
 export namespace GitCommand {
   export type ShowUntrackedFiles = 'system' | boolean;
@@ -20,6 +20,81 @@ export namespace GitCommand {
   }
 }
 
+/**
+ * Parse the output of `git log --name-only` in chunks, the commits are separated by NUL
+ * and the fields of commit are separated by US
+ */
+class LastCommitsParser {
+  readonly commits = new Map<string, GitCommit>();
+  private pathSet: Set<string>;
+  /**
+   * The incomplete commit at the end of received output
+   */
+  private rest = '';
+
+  constructor(private readonly root: string, paths: string[]) {
+    this.pathSet = new Set(paths);
+  }
+
+  get done() {
+    return this.commits.size === this.pathSet.size;
+  }
+
+  /**
+   * @returns whether the commits of all paths are found
+   */
+  push(data: string) {
+    const blocks = (this.rest + data).split('\0');
+    this.rest = blocks.pop()!;
+    for (const block of blocks) {
+      if (this.done) {
+        break;
+      }
+      this.parseBlock(block);
+    }
+    return this.done;
+  }
+
+  end() {
+    if (!this.done) {
+      this.parseBlock(this.rest);
+    }
+    this.rest = '';
+    return this.commits;
+  }
+
+  private parseBlock(block: string) {
+    const [header, ...files] = block.split('\n');
+    if (!header) {
+      return;
+    }
+    const [hash, author, time, subject] = header.split('\x1f');
+    const commit: GitCommit = {
+      hash,
+      author,
+      date: new Date(parseInt(time, 10) * 1000),
+      subject,
+    };
+    for (const file of files) {
+      if (!file) {
+        continue;
+      }
+      // find the requested paths from the file to the root
+      let fullpath = normalizePath(pathLib.join(this.root, file));
+      while (fullpath.length >= this.root.length) {
+        if (this.pathSet.has(fullpath) && !this.commits.has(fullpath)) {
+          this.commits.set(fullpath, commit);
+        }
+        const dirname = pathLib.dirname(fullpath);
+        if (dirname === fullpath) {
+          break;
+        }
+        fullpath = dirname;
+      }
+    }
+  }
+}
+
 export class GitCommand {
   static get binPath() {
     return config.get<string>('git.command')!;
@@ -241,6 +316,89 @@ export class GitCommand {
     }
   }
 
+  /**
+   * Discard the unstaged changes of tracked files
+   */
+  async discard(paths: string[]) {
+    if (paths.length) {
+      const root = await this.getRoot(paths[0]);
+      await this.spawn(['checkout', '--', ...paths], { cwd: root });
+    }
+  }
+
+  /**
+   * Get the content of file in revision, empty revision means the index
+   */
+  async show(root: string, revision: string, fullpath: string) {
+    const relativePath = pathLib
+      .relative(root, fullpath)
+      .split(pathLib.sep)
+      .join('/');
+    return await this.spawn(['show', `${revision}:${relativePath}`], {
+      cwd: root,
+    });
+  }
+
+  /**
+   * Get the diff of file, the untracked file is compared with an empty file
+   */
+  async diff(
+    root: string,
+    fullpath: string,
+    { cached = false, untracked = false } = {},
+  ) {
+    const args = ['diff', '--no-color', '--no-ext-diff'];
+    if (untracked) {
+      args.push('--no-index', '--', '/dev/null', fullpath);
+    } else {
+      if (cached) {
+        args.push('--cached');
+      }
+      args.push('--', fullpath);
+    }
+    return await this.spawn(args, { cwd: root });
+  }
+
+  /**
+   * Parse the whole output of `git log --name-only`
+   */
+  private parseLastCommits(root: string, output: string, paths: string[]) {
+    const parser = new LastCommitsParser(root, paths);
+    parser.push(output);
+    return parser.end();
+  }
+
+  /**
+   * Get the last commits touching the paths by walking the log,
+   * git is killed once all paths are found to avoid reading the whole history
+   */
+  async lastCommits(
+    root: string,
+    paths: string[],
+  ): Promise<Map<string, GitCommit>> {
+    const parser = new LastCommitsParser(root, paths);
+    await execCmdStream(
+      this.binPath,
+      [
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '--name-only',
+        '--format=%x00%h%x1f%an%x1f%at%x1f%s',
+        '--',
+        ...paths.map((path) => pathLib.relative(root, path) || '.'),
+      ],
+      (data) => parser.push(data),
+      { cwd: root },
+    );
+    return parser.end();
+  }
+
+  async head(root: string) {
+    const output = await this.spawn(['rev-parse', 'HEAD'], { cwd: root });
+    return output.trim();
+  }
+
   async fetch(root: string) {
     await this.spawn(['fetch'], { cwd: root });
   }
@@ -127,6 +127,11 @@ export const gitHighlights = {
 
   staged: hlg('GitStaged', internalHighlightGroups.CommentColor),
   unstaged: hlg('GitUnstaged', 'Operator'),
+
+  commitHash: hlg('GitCommitHash', 'Constant'),
+  commitAuthor: hlg('GitCommitAuthor', 'Identifier'),
+  commitDate: hlg('GitCommitDate', internalHighlightGroups.CommentColor),
+  commitSubject: hlg('GitCommitSubject', internalHighlightGroups.CommentColor),
 };
 
 export const getGitFormatHighlight = (format: GitFormat) => {
@@ -104,6 +104,40 @@ import { GitFormat, GitMixedStatus } from './types';
   });
 });
 
+test('gitManager.cmd.parseLastCommits', () => {
+  const root = normalizePath('/root');
+  const fullpath = (path: string) => normalizePath(pathLib.join(root, path));
+  const output = [
+    '\0b2\x1fbob\x1f1600000200\x1fupdate util',
+    '',
+    'src/util/index.ts',
+    '\0a1\x1falice\x1f1600000100\x1finit',
+    '',
+    'src/util/index.ts',
+    'readme.md',
+  ].join('\n');
+  // @ts-ignore
+  const commits = gitManager.cmd.parseLastCommits(root, output, [
+    fullpath('src'),
+    fullpath('readme.md'),
+    fullpath('lib'),
+  ]);
+  expect(Object.fromEntries(commits)).toEqual({
+    [fullpath('src')]: {
+      hash: 'b2',
+      author: 'bob',
+      date: new Date(1600000200 * 1000),
+      subject: 'update util',
+    },
+    [fullpath('readme.md')]: {
+      hash: 'a1',
+      author: 'alice',
+      date: new Date(1600000100 * 1000),
+      subject: 'init',
+    },
+  });
+});
+
 describe('gitManager status', () => {
   jest.mock('./manager');
 
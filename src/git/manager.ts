@@ -2,15 +2,17 @@ import { Disposable } from 'coc.nvim';
 import pathLib from 'path';
 import { config } from '../config';
 import { ExplorerSource } from '../source/source';
-import { compactI, logger } from '../util';
+import { compactI, isParentFolder, logger } from '../util';
 import { GitBinder } from './binder';
 import { GitCommand } from './command';
 import {
+  GitCommit,
   GitFormat,
   GitIgnore,
   GitMixedStatus,
   GitRootFormat,
   GitRootStatus,
+  GitStatus,
 } from './types';
 
 class GitManager {
@@ -20,6 +22,10 @@ class GitManager {
    * rootCache[fullpath] = rootPath
    **/
   private rootCache = new Map<string, string>();
+  /**
+   * statusMapCacheInRoot[rootPath][filepath] = GitStatus
+   **/
+  private statusMapCacheInRoot = new Map<string, Map<string, GitStatus>>();
   /**
    * mixedStatusMapCacheInRoot[rootPath][filepath] = GitStatus
    **/
@@ -35,6 +41,22 @@ class GitManager {
    * rootStatusCache[rootPath] = GitRootStatus
    */
   private rootStatusCache = new Map<string, GitRootStatus>();
+  /**
+   * lastCommitCacheInRoot[rootPath][fullpath] = GitCommit, undefined means not committed
+   */
+  private lastCommitCacheInRoot = new Map<
+    string,
+    Map<string, GitCommit | undefined>
+  >();
+  /**
+   * headCache[rootPath] = HEAD, the last commits are invalidated when HEAD changed
+   */
+  private headCache = new Map<string, string>();
+  private loadingLastCommitPaths = new Set<string>();
+  /**
+   * The directories outside git repository, skip loading the last commits
+   */
+  private nonGitDirectories = new Set<string>();
   private binder = new GitBinder();
 
   private showIgnored: boolean;
@@ -94,6 +116,7 @@ class GitManager {
       };
 
       const statusRecord = await this.cmd.status(root, statusOptions);
+      this.statusMapCacheInRoot.set(root, statusRecord);
       const statusArray = [...statusRecord.values()];
 
       // generate rootStatusCache
@@ -143,6 +166,14 @@ class GitManager {
         rootStatus.allStaged = false;
       }
 
+      if (this.lastCommitCacheInRoot.has(root)) {
+        const head = await this.cmd.head(root);
+        if (this.headCache.get(root) !== head) {
+          this.headCache.set(root, head);
+          this.lastCommitCacheInRoot.delete(root);
+        }
+      }
+
       // generate mixedstatusCache & ignoreCache
       const mixedStatusMap = new Map<string, GitMixedStatus>();
       const ignoreMap = new Map<string, GitIgnore>();
@@ -227,6 +258,10 @@ class GitManager {
     return this.binder.bind(source);
   }
 
+  getStatusesByRoot(rootPath: string): Map<string, GitStatus> {
+    return this.statusMapCacheInRoot.get(rootPath) || new Map();
+  }
+
   getMixedStatusesByRoot(rootPath: string): Map<string, GitMixedStatus> {
     return this.mixedStatusMapCacheInRoot.get(rootPath) || new Map();
   }
@@ -276,6 +311,111 @@ class GitManager {
   getRootStatus(root: string): GitRootStatus | undefined {
     return this.rootStatusCache.get(root);
   }
+
+  private getLastCommitCache(fullpath: string) {
+    return [...this.lastCommitCacheInRoot.entries()]
+      .sort((a, b) => b[0].localeCompare(a[0]))
+      .find(
+        ([rootPath]) =>
+          fullpath === rootPath || isParentFolder(rootPath, fullpath),
+      )?.[1];
+  }
+
+  isLastCommitLoaded(fullpath: string): boolean {
+    return (
+      this.nonGitDirectories.has(pathLib.dirname(fullpath)) ||
+      !!this.getLastCommitCache(fullpath)?.has(fullpath)
+    );
+  }
+
+  getLastCommit(fullpath: string): GitCommit | undefined {
+    return this.getLastCommitCache(fullpath)?.get(fullpath);
+  }
+
+  /**
+   * Load the last commits of paths in batches per git root,
+   * the untracked or ignored paths are not committed and skipped,
+   * otherwise git log walks the entire history for them
+   *
+   * @returns the loaded paths
+   */
+  async loadLastCommits(
+    items: { fullpath: string; directory: boolean }[],
+  ): Promise<string[]> {
+    const pathsByRoot = new Map<string, typeof items>();
+    for (const item of items) {
+      const path = item.fullpath;
+      if (
+        this.loadingLastCommitPaths.has(path) ||
+        this.isLastCommitLoaded(path)
+      ) {
+        continue;
+      }
+      const directory = pathLib.dirname(path);
+      const root = await this.getGitRoot(directory);
+      if (!root) {
+        this.nonGitDirectories.add(directory);
+        continue;
+      }
+      const rootItems = pathsByRoot.get(root);
+      if (rootItems) {
+        rootItems.push(item);
+      } else {
+        pathsByRoot.set(root, [item]);
+      }
+    }
+
+    const loadedPaths: string[] = [];
+    await Promise.all(
+      [...pathsByRoot].map(async ([root, rootItems]) => {
+        const rootPaths = rootItems.map((item) => item.fullpath);
+        rootPaths.forEach((path) => this.loadingLastCommitPaths.add(path));
+        try {
+          let commits: Map<string, GitCommit>;
+          try {
+            if (!this.headCache.has(root)) {
+              this.headCache.set(root, await this.cmd.head(root));
+            }
+            if (!this.statusMapCacheInRoot.has(root)) {
+              await this.reload(root);
+            }
+            const committedPaths = rootItems
+              .filter((item) => {
+                const status = this.getMixedStatus(
+                  item.fullpath,
+                  item.directory,
+                );
+                return (
+                  status?.x !== GitFormat.untracked &&
+                  status?.x !== GitFormat.ignored
+                );
+              })
+              .map((item) => item.fullpath);
+            commits = committedPaths.length
+              ? await this.cmd.lastCommits(root, committedPaths)
+              : new Map();
+          } catch (error) {
+            // mark the paths as loaded to avoid retrying on every draw,
+            // they are loaded again after the HEAD changed
+            logger.error(error);
+            commits = new Map();
+          }
+          let cache = this.lastCommitCacheInRoot.get(root);
+          if (!cache) {
+            cache = new Map();
+            this.lastCommitCacheInRoot.set(root, cache);
+          }
+          for (const path of rootPaths) {
+            cache.set(path, commits.get(path));
+          }
+          loadedPaths.push(...rootPaths);
+        } finally {
+          rootPaths.forEach((path) => this.loadingLastCommitPaths.delete(path));
+        }
+      }),
+    );
+    return loadedPaths;
+  }
 }
 
 export const gitManager = new GitManager();
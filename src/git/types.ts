@@ -65,6 +65,16 @@ export enum GitRootFormat {
   deleted,
 }
 
+export type GitCommit = {
+  /**
+   * The abbreviated hash
+   */
+  hash: string;
+  author: string;
+  date: Date;
+  subject: string;
+};
+
 export type GitRootStatus = {
   allStaged: boolean;
   formats: GitRootFormat[];
@@ -1,9 +1,5 @@
 import { Disposable, workspace, disposeAll } from 'coc.nvim';
-import {
-  conditionActionRules,
-  noopAction,
-  waitAction,
-} from './actions/special';
+import { noopAction, waitAction } from './actions/special';
 import { Explorer } from './explorer';
 import { keyMapping } from './mappings';
 import { hlGroupManager } from './highlight/manager';
@@ -176,7 +172,7 @@ export class HelpPainter {
           continue;
         }
 
-        const rule = conditionActionRules[action.name];
+        const rule = this.source.action.registeredConditionRule(action.name);
         if (rule) {
           await this.drawRow((row) => {
             this.drawMappingsPrefix(indent, row, ctx);
@@ -304,6 +300,25 @@ export class HelpPainter {
     }
   }
 
+  async drawConditions() {
+    await this.drawRow((row) => {
+      row.add(`Conditions for source(${this.source.sourceType})`, {
+        hl: helpHightlights.title,
+      });
+    });
+
+    for (const [name, rule] of this.source.action.registeredConditionRules()) {
+      await this.drawRow((row) => {
+        row.add(' ');
+        row.add(rule.args ? `${name}:${rule.args}` : name, {
+          hl: helpHightlights.conditional,
+        });
+        row.add(' ');
+        row.add(rule.description, { hl: helpHightlights.description });
+      });
+    }
+  }
+
   async drawColumns() {
     await this.drawRow((row) => {
       row.add(`Columns for source(${this.source.sourceType})`, {
@@ -367,6 +382,8 @@ export async function showHelp(
   await helpPainter.drawHr();
   await helpPainter.drawActions();
   await helpPainter.drawHr();
+  await helpPainter.drawConditions();
+  await helpPainter.drawHr();
   await helpPainter.drawColumns();
   await helpPainter.render();
 
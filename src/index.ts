@@ -7,6 +7,8 @@ import {
   workspace,
 } from 'coc.nvim';
 import { ActionMenuCodeActionProvider } from './actions/codeActionProider';
+import { createExplorerApi } from './api';
+import { ExplorerApi } from './api/types';
 import { BufManager } from './bufManager';
 import { config } from './config';
 import { tabContainerManager } from './container';
@@ -18,10 +20,13 @@ import { registerInternalColors } from './highlight/internalColors';
 import { hlGroupManager } from './highlight/manager';
 import { PresetList } from './lists/presets';
 import { registerMappings } from './mappings/manager';
+import { registerBookmarkStore } from './source/sources/bookmark/util/store';
 import { logger, registerRuntimepath } from './util';
 import { registerVimApi } from './vimApi';
 
-export const activate = (context: ExtensionContext) => {
+export * from './api/types';
+
+export const activate = (context: ExtensionContext): ExplorerApi => {
   const { subscriptions } = context;
   const { nvim } = workspace;
   const debug = config.get<boolean>('debug');
@@ -41,6 +46,7 @@ export const activate = (context: ExtensionContext) => {
   registerVimApi(context, explorerManager);
 
   GitCommand.preload().catch(logger.error);
+  registerBookmarkStore(context);
 
   subscriptions.push(
     commands.registerCommand(
@@ -68,4 +74,6 @@ export const activate = (context: ExtensionContext) => {
     bufManager.reload().catch(logger.error);
     await tabContainerManager.register();
   })().catch(logger.error);
+
+  return createExplorerApi(explorerManager);
 };
@@ -47,6 +47,21 @@ export class MarkExplorer {
     }
   }
 
+  /**
+   * Run the block and discard the marks changed by it,
+   * used to draw the nodes which are not in the explorer
+   */
+  async preserve<T>(block: () => Promise<T>): Promise<T> {
+    const marksGroupByType = new Map(
+      [...this.marksGroupByType].map(([name, lines]) => [name, new Set(lines)]),
+    );
+    try {
+      return await block();
+    } finally {
+      this.marksGroupByType = marksGroupByType;
+    }
+  }
+
   offsetLines(offset: number, startLine: number, endLine = Infinity) {
     if (offset === 0) {
       return;
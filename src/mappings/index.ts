@@ -1,9 +1,5 @@
 import { workspace } from 'coc.nvim';
-import {
-  conditionActionRules,
-  noopAction,
-  waitAction,
-} from '../actions/special';
+import { isConditionAction, noopAction, waitAction } from '../actions/special';
 import {
   Action,
   ActionExp,
@@ -91,7 +87,7 @@ export function getSingleAction(actionExp: ActionExp): Action | undefined {
       .filter(
         (action) =>
           action &&
-          !(action.name in conditionActionRules) &&
+          !isConditionAction(action.name) &&
           action.name !== waitAction.name &&
           action.name !== noopAction.name,
       );
@@ -101,28 +97,56 @@ export function getSingleAction(actionExp: ActionExp): Action | undefined {
 
 type MouseMode = NonNullable<Explorer['explorer.mouseMode']>;
 
+/**
+ * Drag to move files, drag with ctrl to copy files
+ */
+function withMouseDragMappings(
+  mouseMappings: OriginalMappings,
+): OriginalMappings {
+  if (
+    config.get<MouseMode>('mouseMode') === 'none' ||
+    !config.get<boolean>('mouseDragAndDrop')
+  ) {
+    return mouseMappings;
+  }
+  const release: OriginalActionExp = [
+    'mouseDragging?',
+    'mouseDrop',
+    mouseMappings['<LeftRelease>'] ?? 'noop',
+  ];
+  return {
+    ...mouseMappings,
+    '<LeftDrag>': 'mouseDrag',
+    '<C-LeftDrag>': 'mouseDrag:copy',
+    '<LeftRelease>': release,
+    '<C-LeftRelease>': release,
+  };
+}
+
 class KeyMapping {
   mode = config.get<MappingConfigMode>('keyMappingMode', 'default');
 
-  private readonly mouseMappings = (
-    {
-      none: {},
-      singleclick: {
-        '<LeftRelease>': [
-          'expandable?',
-          ['expanded?', 'collapse', 'expand'],
-          'open',
-        ],
-      },
-      doubleclick: {
-        '<2-LeftMouse>': [
-          'expandable?',
-          ['expanded?', 'collapse', 'expand'],
-          'open',
-        ],
-      },
-    } as Record<MouseMode, OriginalMappings>
-  )[config.get<MouseMode>('mouseMode')!];
+  private readonly mouseMappings = withMouseDragMappings(
+    (
+      {
+        none: {},
+        singleclick: {
+          '<LeftRelease>': [
+            'expandable?',
+            ['expanded?', 'collapse', 'expand'],
+            'open',
+          ],
+        },
+        doubleclick: {
+          '<2-LeftMouse>': [
+            'expandable?',
+            ['expanded?', 'collapse', 'expand'],
+            'open',
+          ],
+        },
+      } as Record<MouseMode, OriginalMappings>
+    )[config.get<MouseMode>('mouseMode')!],
+  );
 
   readonly configByModes: Record<
     MappingConfigMode,
@@ -162,6 +186,8 @@ class KeyMapping {
         ic: 'preview:content',
         Il: 'previewOnHover:toggle:labeling',
         Ic: 'previewOnHover:toggle:content',
+        id: 'preview:diff',
+        Id: 'previewOnHover:toggle:diff',
         II: 'previewOnHover:disable',
 
         yp: 'copyFilepath',
@@ -177,6 +203,8 @@ class KeyMapping {
         a: 'addFile',
         A: 'addDirectory',
         r: 'rename',
+        u: 'undo',
+        '<C-r>': 'redo',
 
         zh: 'toggleHidden',
         'g<dot>': 'toggleHidden',
@@ -221,7 +249,25 @@ class KeyMapping {
         ii: 'textobj:indent:i',
         ai: 'textobj:indent:a',
       },
-      sources: {},
+      sources: {
+        file: {
+          '=': 'compare',
+        },
+        git: {
+          dx: 'gitDiscard',
+          dv: 'gitDiff',
+          gH: 'gitOpenHead',
+        },
+        compare: {
+          '<cr>': [
+            'wait',
+            'expandable?',
+            ['expanded?', 'collapse', 'expand'],
+            'compareDiff',
+          ],
+          dv: 'compareDiff',
+        },
+      },
     },
   };
 
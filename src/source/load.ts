@@ -1,3 +1,7 @@
 import './sources/buffer/bufferSource';
 import './sources/file/fileSource';
 import './sources/bookmark/bookmarkSource';
+import './sources/git/gitSource';
+import './sources/outline/outlineSource';
+import './sources/diagnostic/diagnosticSource';
+import './sources/compare/compareSource';
@@ -2,6 +2,7 @@ import { HelperEventEmitter, Notifier } from 'coc-helper';
 import { Disposable, ExtensionContext, Location, workspace } from 'coc.nvim';
 import { Class } from 'type-fest';
 import { ActionSource } from '../actions/actionSource';
+import { checkCustomActions } from '../actions/customActions';
 import { Explorer } from '../explorer';
 import { HighlightSource } from '../highlight/highlightSource';
 import { LocatorSource } from '../locator/locatorSource';
@@ -157,6 +158,14 @@ export abstract class ExplorerSource<TreeNode extends BaseTreeNode<TreeNode>>
 
   set root(_root: string) {}
 
+  /**
+   * Render the parent nodes together when rendering by paths,
+   * used when the parent nodes aggregate the states of children
+   */
+  get renderPathsWithParents() {
+    return false;
+  }
+
   config = this.explorer.config;
 
   icons = ((source) => ({
@@ -187,6 +196,12 @@ export abstract class ExplorerSource<TreeNode extends BaseTreeNode<TreeNode>>
         (source.config.get('icon.enableNerdfont') ? '' : 'RO')
       );
     },
+    get pinned() {
+      return (
+        source.config.get<string>('icon.pinned') ||
+        (source.config.get('icon.enableNerdfont') ? '' : 'P')
+      );
+    },
   }))(this);
 
   helper = ((source) => ({
@@ -219,7 +234,9 @@ export abstract class ExplorerSource<TreeNode extends BaseTreeNode<TreeNode>>
   }
 
   bootInit(rootExpandedForOpen: boolean) {
-    Promise.resolve(this.init()).catch(logger.error);
+    Promise.resolve(this.init())
+      .then(() => checkCustomActions(this.action))
+      .catch(logger.error);
 
     this.view.bootInit(rootExpandedForOpen);
   }
@@ -228,7 +245,7 @@ export abstract class ExplorerSource<TreeNode extends BaseTreeNode<TreeNode>>
 
   async bootOpen(isFirst: boolean) {
     await this.open(isFirst);
-    this.view.bootOpen();
+    await this.view.bootOpen();
   }
 
   protected abstract open(isFirst: boolean): Promise<void>;
@@ -249,6 +266,14 @@ export abstract class ExplorerSource<TreeNode extends BaseTreeNode<TreeNode>>
     return this.selectedNodes.size !== 0;
   }
 
+  /**
+   * Resolve the fullpath on the filesystem for opening the node,
+   * the virtual nodes can be extracted to a temporary file
+   */
+  async resolveFullpath(node: TreeNode): Promise<string> {
+    return node.fullpath!;
+  }
+
   isSelectedNode(node: TreeNode) {
     return this.selectedNodes.has(node);
   }
@@ -5,6 +5,9 @@ export const bookmarkArgOptions = {
   bookmarkRootTemplate: Args.registerOption<string>('bookmark-root-template', {
     getDefault: () => config.get<string>('bookmark.root.template')!,
   }),
+  bookmarkFileTemplate: Args.registerOption<string>('bookmark-file-template', {
+    getDefault: () => config.get<string>('bookmark.file.template')!,
+  }),
   bookmarkChildTemplate: Args.registerOption<string>(
     'bookmark-child-template',
     {
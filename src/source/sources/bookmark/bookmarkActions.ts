@@ -0,0 +1,95 @@
+import { window } from 'coc.nvim';
+import { ActionSource } from '../../../actions/actionSource';
+import { input } from '../../../util';
+import { BookmarkNode, BookmarkSource } from './bookmarkSource';
+import { createBookmarkItem, sourceWindowCursor } from './util/store';
+
+export function loadBookmarkActions(
+  action: ActionSource<BookmarkSource, BookmarkNode>,
+) {
+  const bookmark = action.owner;
+
+  /**
+   * The bookmarks of coc-bookmark can not be changed by explorer
+   */
+  const isReadonly = () => {
+    if (bookmark.native) {
+      return false;
+    }
+    window.showMessage(
+      'The bookmarks of coc-bookmark are read-only, enable explorer.bookmark.native to edit bookmarks',
+      'error',
+    );
+    return true;
+  };
+
+  action.addNodeAction(
+    'addBookmark',
+    async () => {
+      if (isReadonly()) {
+        return;
+      }
+      const cursor = await sourceWindowCursor(bookmark.explorer);
+      if (!cursor) {
+        window.showMessage('The source window is not a file', 'warning');
+        return;
+      }
+      await bookmark.store.add(
+        cursor.fullpath,
+        await createBookmarkItem(cursor.fullpath, cursor.lnum),
+      );
+    },
+    'add a bookmark at the cursor line of source window',
+  );
+
+  action.addNodesAction(
+    'removeBookmark',
+    async ({ nodes }) => {
+      if (isReadonly()) {
+        return;
+      }
+      for (const node of nodes) {
+        if (node.type === 'file') {
+          await bookmark.store.remove(node.fullpath);
+        } else if (node.type === 'child') {
+          await bookmark.store.remove(node.fullpath, node.lnum);
+        }
+      }
+    },
+    'remove bookmarks, the file node means all bookmarks of the file',
+    { select: true },
+  );
+
+  action.addNodeAction(
+    'annotateBookmark',
+    async ({ node }) => {
+      if (node.type !== 'child' || isReadonly()) {
+        return;
+      }
+      const annotation = await input(
+        'Input the annotation:',
+        node.annotation ?? '',
+      );
+      if (!annotation) {
+        return;
+      }
+      await bookmark.store.update(node.fullpath, node.lnum, { annotation });
+    },
+    'annotate the bookmark',
+  );
+
+  action.addNodeAction(
+    'renameBookmark',
+    async ({ node }) => {
+      if (node.type !== 'child' || isReadonly()) {
+        return;
+      }
+      const label = await input('Input a new bookmark name:', node.label ?? '');
+      if (!label) {
+        return;
+      }
+      await bookmark.store.update(node.fullpath, node.lnum, { label });
+    },
+    'rename the bookmark',
+  );
+}
@@ -1,5 +1,6 @@
 import { extensions, Location, Range, workspace } from 'coc.nvim';
 import pathLib from 'path';
+import { config } from '../../../config';
 import { internalEvents } from '../../../events';
 import { hlGroupManager } from '../../../highlight/manager';
 import { debounceFn, fsExists, normalizePath } from '../../../util';
@@ -7,18 +8,25 @@ import { ViewSource } from '../../../view/viewSource';
 import { BaseTreeNode, ExplorerSource } from '../../source';
 import { sourceManager } from '../../sourceManager';
 import { bookmarkArgOptions } from './argOptions';
+import { loadBookmarkActions } from './bookmarkActions';
 import { bookmarkColumnRegistrar } from './bookmarkColumnRegistrar';
 import './load';
 import BookmarkDB from './util/db';
 import { decode } from './util/encodeDecode';
+import { BookmarkItem, getBookmarkStore } from './util/store';
 
 export interface BookmarkNode
-  extends BaseTreeNode<BookmarkNode, 'root' | 'child'> {
+  extends BaseTreeNode<BookmarkNode, 'root' | 'file' | 'child'> {
   fullpath: string;
   name: string;
   lnum: number;
   line: string;
+  label?: string;
   annotation: string | undefined;
+  /**
+   * The count of bookmarks in file node
+   */
+  count?: number;
 }
 
 export namespace BookmarkDB {
@@ -49,6 +57,8 @@ export const bookmarkHighlights = {
     'ctermbg=27 ctermfg=0 guibg=#1593e5 guifg=#ffffff',
   ),
   annotation: hlg('BookmarkAnnotation', 'Comment'),
+  label: hlg('BookmarkLabel', 'Identifier'),
+  count: hlg('BookmarkCount', 'Comment'),
 };
 
 export class BookmarkSource extends ExplorerSource<BookmarkNode> {
@@ -68,19 +78,42 @@ export class BookmarkSource extends ExplorerSource<BookmarkNode> {
     },
   );
 
+  /**
+   * The files have been expanded by default since the explorer opened
+   */
+  private initedFiles = new Set<string>();
+  private bookmarksByFile = new Map<string, BookmarkItem[]>();
+
   static get enabled(): boolean | Promise<boolean> {
-    return extensions.getExtensionState('coc-bookmark') === 'activated';
+    return (
+      config.get<boolean>('bookmark.native')! ||
+      extensions.getExtensionState('coc-bookmark') === 'activated'
+    );
+  }
+
+  /**
+   * Use the built-in bookmark store instead of coc-bookmark
+   */
+  get native() {
+    return this.config.get<boolean>('bookmark.native')!;
+  }
+
+  get store() {
+    return getBookmarkStore(this.context.storagePath);
   }
 
   async init() {
+    const reload = debounceFn(500, async () => {
+      await this.load(this.view.rootNode);
+    });
     this.disposables.push(
-      internalEvents.on(
-        'CocBookmarkChange',
-        debounceFn(500, async () => {
-          await this.load(this.view.rootNode);
-        }),
-      ),
+      reload,
+      this.native
+        ? this.store.onDidChange(reload)
+        : internalEvents.on('CocBookmarkChange', reload),
     );
+
+    loadBookmarkActions(this.action);
   }
 
   async open() {
@@ -88,6 +121,10 @@ export class BookmarkSource extends ExplorerSource<BookmarkNode> {
       'root',
       await this.explorer.args.value(bookmarkArgOptions.bookmarkRootTemplate),
     );
+    await this.view.parseTemplate(
+      'file',
+      await this.explorer.args.value(bookmarkArgOptions.bookmarkFileTemplate),
+    );
     await this.view.parseTemplate(
       'child',
       await this.explorer.args.value(bookmarkArgOptions.bookmarkChildTemplate),
@@ -96,10 +133,14 @@ export class BookmarkSource extends ExplorerSource<BookmarkNode> {
       ),
     );
 
+    this.initedFiles.clear();
     this.view.rootNode.fullpath = this.explorer.root;
   }
 
-  async loadChildren(parentNode: BookmarkNode) {
+  private async loadBookmarks(): Promise<Map<string, BookmarkItem[]>> {
+    if (this.native) {
+      return new Map(Object.entries(await this.store.all()));
+    }
     const extRoot = workspace.env.extensionRoot;
     const bookmarkPath = pathLib.join(
       extRoot,
@@ -107,34 +148,73 @@ export class BookmarkSource extends ExplorerSource<BookmarkNode> {
     );
     const db = new BookmarkDB(bookmarkPath);
     const data = (await db.load()) as BookmarkDB.Data;
+    const bookmarks = new Map<string, BookmarkItem[]>();
+    for (const [filepath, collection] of Object.entries(data)) {
+      bookmarks.set(
+        normalizePath(decode(filepath)),
+        Object.keys(collection)
+          .map((l) => Number(l))
+          .sort((l1, l2) => l1 - l2)
+          .map((lnum) => ({
+            lnum,
+            line: collection[lnum].line,
+            annotation: collection[lnum].annotation?.toString(),
+          })),
+      );
+    }
+    return bookmarks;
+  }
 
-    const bookmarkNodes: BookmarkNode[] = [];
-    for (const [filepath, bookmarks] of Object.entries(data)) {
-      const fullpath = normalizePath(decode(filepath));
-      if (
-        (!this.showHidden && !fullpath.startsWith(parentNode.fullpath)) ||
-        !(await fsExists(fullpath))
-      ) {
-        continue;
-      }
-
-      for (const lnum of Object.keys(bookmarks)
-        .map((l) => Number(l))
-        .sort((l1, l2) => l1 - l2)) {
-        const bookmark: BookmarkDB.Item = bookmarks[lnum];
-        bookmarkNodes.push({
-          type: 'child',
-          uid: this.helper.getUid(`${fullpath}:${lnum}`),
+  async loadChildren(parentNode: BookmarkNode): Promise<BookmarkNode[]> {
+    if (parentNode.type === 'root') {
+      this.bookmarksByFile = await this.loadBookmarks();
+      const fileNodes: BookmarkNode[] = [];
+      for (const [fullpath, bookmarks] of [...this.bookmarksByFile].sort(
+        ([a], [b]) => a.localeCompare(b),
+      )) {
+        if (
+          !bookmarks.length ||
+          (!this.showHidden && !fullpath.startsWith(parentNode.fullpath)) ||
+          !(await fsExists(fullpath))
+        ) {
+          continue;
+        }
+        const fileNode: BookmarkNode = {
+          type: 'file',
+          uid: this.helper.getUid(fullpath),
+          expandable: true,
           fullpath,
           name: pathLib.basename(fullpath),
-          lnum,
-          location: Location.create(fullpath, Range.create(lnum, -1, lnum, -1)),
-          line: bookmark.line,
-          annotation: bookmark.annotation?.toString(),
-        });
+          lnum: -1,
+          line: '',
+          annotation: undefined,
+          count: bookmarks.length,
+        };
+        if (!this.initedFiles.has(fullpath)) {
+          this.initedFiles.add(fullpath);
+          this.view.setExpanded(fileNode, true);
+        }
+        fileNodes.push(fileNode);
       }
+      return fileNodes;
+    } else if (parentNode.type === 'file') {
+      const { fullpath } = parentNode;
+      return (this.bookmarksByFile.get(fullpath) ?? []).map((bookmark) => ({
+        type: 'child',
+        uid: this.helper.getUid(`${fullpath}:${bookmark.lnum}`),
+        fullpath,
+        name: pathLib.basename(fullpath),
+        lnum: bookmark.lnum,
+        location: Location.create(
+          fullpath,
+          Range.create(bookmark.lnum, -1, bookmark.lnum, -1),
+        ),
+        line: bookmark.line,
+        label: bookmark.label,
+        annotation: bookmark.annotation,
+      }));
     }
-    return bookmarkNodes;
+    return [];
   }
 }
 
@@ -1,11 +1,13 @@
 import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
 import { bookmarkHighlights } from '../bookmarkSource';
 
-bookmarkColumnRegistrar.registerColumn('child', 'filename', () => ({
+bookmarkColumnRegistrar.registerColumn('child', 'filename', ({ source }) => ({
   draw() {
     return {
       drawNode(row, { node }) {
-        row.add(node.name, { hl: bookmarkHighlights.filename });
+        source.view.filter.drawName(row, node, {
+          hl: bookmarkHighlights.filename,
+        });
       },
     };
   },
@@ -0,0 +1,14 @@
+import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
+import { bookmarkHighlights } from '../bookmarkSource';
+
+bookmarkColumnRegistrar.registerColumn('child', 'label', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (node.label) {
+          row.add(node.label, { hl: bookmarkHighlights.label });
+        }
+      },
+    };
+  },
+}));
@@ -0,0 +1,12 @@
+import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
+import { bookmarkHighlights } from '../bookmarkSource';
+
+bookmarkColumnRegistrar.registerColumn('file', 'count', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(`(${node.count ?? 0})`, { hl: bookmarkHighlights.count });
+      },
+    };
+  },
+}));
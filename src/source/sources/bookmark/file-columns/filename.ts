@@ -0,0 +1,14 @@
+import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
+import { bookmarkHighlights } from '../bookmarkSource';
+
+bookmarkColumnRegistrar.registerColumn('file', 'filename', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        source.view.filter.drawName(row, node, {
+          hl: bookmarkHighlights.filename,
+        });
+      },
+    };
+  },
+}));
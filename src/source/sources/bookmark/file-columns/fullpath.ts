@@ -0,0 +1,15 @@
+import { displayedFullpath } from '../../../../util';
+import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
+import { bookmarkHighlights } from '../bookmarkSource';
+
+bookmarkColumnRegistrar.registerColumn('file', 'fullpath', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(displayedFullpath(node.fullpath), {
+          hl: bookmarkHighlights.fullpath,
+        });
+      },
+    };
+  },
+}));
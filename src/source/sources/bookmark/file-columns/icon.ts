@@ -0,0 +1,17 @@
+import { bookmarkColumnRegistrar } from '../bookmarkColumnRegistrar';
+import { bookmarkHighlights } from '../bookmarkSource';
+
+bookmarkColumnRegistrar.registerColumn('file', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: bookmarkHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
@@ -2,9 +2,15 @@ import './root-columns/icon';
 import './root-columns/title';
 import './root-columns/hidden';
 
+import './file-columns/icon';
+import './file-columns/filename';
+import './file-columns/fullpath';
+import './file-columns/count';
+
 import './child-columns/selection';
 import './child-columns/position';
 import './child-columns/filename';
 import './child-columns/fullpath';
 import './child-columns/line';
+import './child-columns/label';
 import './child-columns/annotation';
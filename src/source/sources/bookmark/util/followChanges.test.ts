@@ -0,0 +1,40 @@
+import { shiftBookmarks } from './followChanges';
+
+const range = (
+  startLine: number,
+  startCharacter: number,
+  endLine: number,
+  endCharacter: number,
+) => ({
+  start: { line: startLine, character: startCharacter },
+  end: { line: endLine, character: endCharacter },
+});
+
+const item = (lnum: number, label?: string) => ({
+  lnum,
+  line: `line ${lnum}`,
+  label,
+});
+
+test('shiftBookmarks by inserted lines', () => {
+  const items = [item(1), item(3), item(5)];
+  expect(
+    shiftBookmarks(items, [{ range: range(1, 0, 1, 0), text: 'a\nb\n' }]),
+  ).toEqual([item(1), { ...item(3), lnum: 5 }, { ...item(5), lnum: 7 }]);
+});
+
+test('shiftBookmarks ignores the changes inside line', () => {
+  expect(
+    shiftBookmarks([item(1)], [{ range: range(0, 0, 0, 2), text: 'a' }]),
+  ).toBeUndefined();
+});
+
+test('shiftBookmarks merges the bookmarks in deleted range', () => {
+  const items = [item(2), item(3, 'label'), item(4), item(6)];
+  expect(
+    shiftBookmarks(items, [{ range: range(1, 3, 4, 0), text: '' }]),
+  ).toEqual([
+    { ...item(2), label: 'label' },
+    { ...item(6), lnum: 3 },
+  ]);
+});
@@ -0,0 +1,55 @@
+import type { TextDocumentContentChange } from 'coc.nvim';
+import type { BookmarkItem } from './store';
+
+/**
+ * Shift the lines of bookmarks by the changes of buffer,
+ * the bookmarks moved into the same line are merged into the first one
+ *
+ * @returns the shifted bookmarks sorted by line, undefined if no bookmark is moved
+ */
+export function shiftBookmarks(
+  items: BookmarkItem[],
+  changes: ReadonlyArray<TextDocumentContentChange>,
+): BookmarkItem[] | undefined {
+  let changed = false;
+  for (const change of changes) {
+    if (!('range' in change)) {
+      continue;
+    }
+    const { start, end } = change.range;
+    const delta = change.text.split('\n').length - 1 - (end.line - start.line);
+    if (delta === 0) {
+      continue;
+    }
+    for (const item of items) {
+      const line = item.lnum - 1;
+      let newLine = line;
+      if (
+        line > end.line ||
+        (line === end.line && (end.line > start.line || end.character === 0))
+      ) {
+        newLine = line + delta;
+      } else if (line > start.line && line < end.line) {
+        newLine = start.line;
+      }
+      if (newLine !== line) {
+        item.lnum = Math.max(newLine, 0) + 1;
+        changed = true;
+      }
+    }
+  }
+  if (!changed) {
+    return;
+  }
+  const itemByLnum = new Map<number, BookmarkItem>();
+  for (const item of items) {
+    const existed = itemByLnum.get(item.lnum);
+    if (existed) {
+      existed.label = existed.label ?? item.label;
+      existed.annotation = existed.annotation ?? item.annotation;
+    } else {
+      itemByLnum.set(item.lnum, item);
+    }
+  }
+  return [...itemByLnum.values()].sort((a, b) => a.lnum - b.lnum);
+}
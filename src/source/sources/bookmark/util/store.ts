@@ -0,0 +1,190 @@
+import {
+  Emitter,
+  ExtensionContext,
+  TextDocumentContentChange,
+  Uri,
+  workspace,
+} from 'coc.nvim';
+import { config } from '../../../../config';
+import type { Explorer } from '../../../../explorer';
+import {
+  getJsonFileStore,
+  JsonFileStore,
+  normalizePath,
+  readFileLines,
+} from '../../../../util';
+import { shiftBookmarks } from './followChanges';
+
+/**
+ * The bookmark in the native store
+ */
+export interface BookmarkItem {
+  /**
+   * 1-based line number
+   */
+  lnum: number;
+  line: string;
+  /**
+   * The name given by the rename action
+   */
+  label?: string;
+  annotation?: string;
+}
+
+/**
+ * data[fullpath] = bookmarks sorted by line
+ */
+type BookmarkData = Record<string, BookmarkItem[]>;
+
+export class BookmarkStore extends JsonFileStore<BookmarkData> {
+  private changedEmitter = new Emitter<void>();
+  readonly onDidChange = this.changedEmitter.event;
+
+  private changed() {
+    this.changedEmitter.fire();
+    this.scheduleWrite();
+  }
+
+  async all(): Promise<BookmarkData> {
+    return await this.getData();
+  }
+
+  async get(fullpath: string, lnum: number) {
+    return (await this.getData())[fullpath]?.find((it) => it.lnum === lnum);
+  }
+
+  /**
+   * Add the bookmark, replace the bookmark in the same line
+   */
+  async add(fullpath: string, item: BookmarkItem) {
+    const data = await this.getData();
+    const items = (data[fullpath] ?? []).filter((it) => it.lnum !== item.lnum);
+    items.push(item);
+    data[fullpath] = items.sort((a, b) => a.lnum - b.lnum);
+    this.changed();
+  }
+
+  /**
+   * Remove the bookmark, without lnum means all bookmarks of the file
+   */
+  async remove(fullpath: string, lnum?: number) {
+    const data = await this.getData();
+    const items = (data[fullpath] ?? []).filter(
+      (it) => lnum !== undefined && it.lnum !== lnum,
+    );
+    if (items.length) {
+      data[fullpath] = items;
+    } else {
+      delete data[fullpath];
+    }
+    this.changed();
+  }
+
+  async update(
+    fullpath: string,
+    lnum: number,
+    fields: Pick<BookmarkItem, 'label' | 'annotation'>,
+  ) {
+    const item = await this.get(fullpath, lnum);
+    if (!item) {
+      return;
+    }
+    Object.assign(item, fields);
+    this.changed();
+  }
+
+  /**
+   * Move the bookmarks of file by the changes of buffer to follow the edits
+   */
+  async followChanges(
+    fullpath: string,
+    changes: ReadonlyArray<TextDocumentContentChange>,
+    getline: (line: number) => string,
+  ) {
+    const data = await this.getData();
+    const items = data[fullpath];
+    if (!items?.length) {
+      return;
+    }
+    const shiftedItems = shiftBookmarks(items, changes);
+    if (!shiftedItems) {
+      return;
+    }
+    for (const item of shiftedItems) {
+      item.line = getline(item.lnum - 1);
+    }
+    data[fullpath] = shiftedItems;
+    this.changed();
+  }
+}
+
+/**
+ * Get the native bookmark store in the storage directory of extension
+ */
+export function getBookmarkStore(storagePath: string) {
+  return getJsonFileStore(
+    storagePath,
+    'bookmarks.json',
+    (filepath) => new BookmarkStore(filepath, { writeDelay: 500, indent: 2 }),
+  );
+}
+
+/**
+ * Follow the edits of opened buffers to keep the line of native bookmarks
+ */
+export function registerBookmarkStore(context: ExtensionContext) {
+  if (!config.get<boolean>('bookmark.native')) {
+    return;
+  }
+  const store = getBookmarkStore(context.storagePath);
+  context.subscriptions.push(
+    workspace.onDidChangeTextDocument(async (e) => {
+      const doc = workspace.getDocument(e.bufnr);
+      if (!doc || doc.buftype !== '') {
+        return;
+      }
+      await store.followChanges(
+        normalizePath(Uri.parse(e.textDocument.uri).fsPath),
+        e.contentChanges,
+        (line) => doc.getline(line),
+      );
+    }),
+  );
+}
+
+/**
+ * Create the bookmark with the content of line, read from the buffer if it is loaded
+ */
+export async function createBookmarkItem(
+  fullpath: string,
+  lnum: number,
+): Promise<BookmarkItem> {
+  const doc = workspace.getDocument(Uri.file(fullpath).toString());
+  if (doc) {
+    return { lnum, line: doc.getline(lnum - 1) };
+  }
+  const [line] = await readFileLines(fullpath, lnum - 1, lnum - 1).catch(
+    () => [],
+  );
+  return { lnum, line: line ?? '' };
+}
+
+/**
+ * Get the file and line of cursor in the window where explorer opened
+ */
+export async function sourceWindowCursor(
+  explorer: Explorer,
+): Promise<{ fullpath: string; lnum: number } | undefined> {
+  const winid = await explorer.sourceWinid.get();
+  const bufnr = await explorer.sourceBufnrBySourceWinid();
+  if (!winid || !bufnr) {
+    return;
+  }
+  const fullpath =
+    explorer.explorerManager.bufManager.getBufferNode(bufnr)?.fullpath;
+  if (!fullpath) {
+    return;
+  }
+  const lnum = (await workspace.nvim.call('line', ['.', winid])) as number;
+  return { fullpath, lnum };
+}
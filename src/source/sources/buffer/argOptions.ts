@@ -5,6 +5,9 @@ export const bufferArgOptions = {
   bufferRootTemplate: Args.registerOption<string>('buffer-root-template', {
     getDefault: () => config.get<string>('buffer.root.template')!,
   }),
+  bufferGroupTemplate: Args.registerOption<string>('buffer-group-template', {
+    getDefault: () => config.get<string>('buffer.group.template')!,
+  }),
   bufferChildTemplate: Args.registerOption<string>('buffer-child-template', {
     getDefault: () => config.get<string>('buffer.child.template')!,
   }),
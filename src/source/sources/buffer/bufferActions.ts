@@ -1,8 +1,16 @@
-import { workspace } from 'coc.nvim';
+import { window, workspace } from 'coc.nvim';
+import pathLib from 'path';
 import { ActionSource } from '../../../actions/actionSource';
 import { bufferTabOnly } from '../../../config';
 import { tabContainerManager } from '../../../container';
 import {
+  BufferGroupBy,
+  bufferGroupByList,
+  BufferSortType,
+  bufferSortTypeList,
+} from '../../../types';
+import {
+  flatten,
   leaveEmptyInWinids,
   prompt,
   winidsByBufnrInCurTab,
@@ -14,10 +22,98 @@ export function loadBufferActions(
 ) {
   const { nvim } = workspace;
   const buffer = action.owner;
+  /**
+   * The grouping mode restored by toggling
+   */
+  let toggledGroupBy: BufferGroupBy =
+    buffer.groupBy === 'none' ? 'directory' : buffer.groupBy;
+
+  /**
+   * The buffers of nodes, the group node means the buffers in it
+   */
+  const buffersOfNodes = (nodes: BufferNode[]) =>
+    flatten(
+      nodes.map((node) =>
+        node.type === 'group'
+          ? node.groupBuffers ?? []
+          : node.type === 'child'
+          ? [node]
+          : [],
+      ),
+    );
+
+  /**
+   * Close the buffers except the pinned buffers,
+   * confirm when it would discard modified buffers
+   */
+  const closeBuffers = async (
+    nodes: BufferNode[],
+    {
+      pinned = false,
+      bwipeout = false,
+    }: {
+      /**
+       * Close the pinned buffers too, e.g. the buffers deleted explicitly
+       */
+      pinned?: boolean;
+      /**
+       * Wipeout the buffers from all tabs
+       */
+      bwipeout?: boolean;
+    } = {},
+  ) => {
+    let closeNodes = nodes.filter((node) => pinned || !node.pinned);
+    if (!closeNodes.length) {
+      window.showMessage('No buffers to close', 'warning');
+      return;
+    }
+    if (!bwipeout && bufferTabOnly()) {
+      // remove buffers in tab container, keep the buffers of other tabs
+      await tabContainerManager.curTabDelBufnr(
+        ...closeNodes.map((node) => node.bufnr),
+      );
+      const otherTabNodes = closeNodes.filter((node) =>
+        tabContainerManager.existBufnr(node.bufnr),
+      );
+      for (const node of otherTabNodes) {
+        await leaveEmptyInWinids(await winidsByBufnrInCurTab(node.bufnr));
+      }
+      closeNodes = closeNodes.filter((node) => !otherTabNodes.includes(node));
+      if (!closeNodes.length) {
+        await buffer.load(buffer.view.rootNode, { force: true });
+        return;
+      }
+    }
+    const modifiedNodes = closeNodes.filter((node) => node.modified);
+    if (
+      modifiedNodes.length &&
+      (await prompt(
+        `${
+          modifiedNodes.length
+        } buffers are being modified, discard them?\n${modifiedNodes
+          .map((node) => node.name)
+          .join('\n')}`,
+      )) !== 'yes'
+    ) {
+      return;
+    }
+    for (const node of closeNodes) {
+      await buffer.bufManager.removeBufNode(node, {
+        skipModified: true,
+        bwipeout,
+        directory: false,
+      });
+    }
+    await buffer.load(buffer.view.rootNode, { force: true });
+  };
 
   action.addNodeAction(
     'drop',
     async ({ node }) => {
+      if (node.type !== 'child') {
+        window.showMessage('Group nodes are not supported by drop', 'warning');
+        return;
+      }
       if (!node.hidden) {
         const info = (await nvim.call('getbufinfo', node.bufnr)) as any[];
         if (info.length && info[0].windows.length) {
@@ -39,56 +135,204 @@ export function loadBufferActions(
     'open buffer by drop command',
     { select: true },
   );
-  action.addNodeAction(
+  action.addNodesAction(
     'delete',
-    async ({ node }) => {
-      if (bufferTabOnly()) {
-        // remove buffer in tab container
-        await tabContainerManager.curTabDelBufnr(node.bufnr);
-        if (tabContainerManager.existBufnr(node.bufnr)) {
-          const winids = await winidsByBufnrInCurTab(node.bufnr);
-          await leaveEmptyInWinids(winids);
-          return;
-        }
-      }
-
-      if (
-        buffer.bufManager.modified(node.fullpath, {
-          directory: false,
-        }) &&
-        (await prompt('Buffer is being modified, delete it?')) !== 'yes'
-      ) {
-        return;
-      }
-      await buffer.bufManager.removeBufNode(node, {
-        skipModified: true,
-        bwipeout: false,
-        directory: false,
-      });
-      await buffer.load(node, { force: true });
+    async ({ nodes }) => {
+      await closeBuffers(buffersOfNodes(nodes), { pinned: true });
     },
     'delete buffer',
     { select: true },
   );
-  action.addNodeAction(
+  action.addNodesAction(
     'deleteForever',
-    async ({ node }) => {
-      if (
-        buffer.bufManager.modified(node.fullpath, {
-          directory: false,
-        }) &&
-        (await prompt('Buffer is being modified, wipeout it?')) !== 'yes'
-      ) {
-        return;
-      }
-      await buffer.bufManager.removeBufNode(node, {
-        skipModified: true,
+    async ({ nodes }) => {
+      await closeBuffers(buffersOfNodes(nodes), {
+        pinned: true,
         bwipeout: true,
-        directory: false,
       });
-      await buffer.load(node, { force: true });
     },
     'bwipeout buffer',
     { select: true },
   );
+
+  action.addNodesAction(
+    'closeOthers',
+    async ({ nodes }) => {
+      const keepBufnrs = new Set(buffersOfNodes(nodes).map((it) => it.bufnr));
+      await closeBuffers(
+        (
+          await buffer.listBuffers()
+        ).filter((node) => !keepBufnrs.has(node.bufnr)),
+      );
+    },
+    'close the other buffers except the pinned buffers',
+    { select: true },
+  );
+  action.addNodeAction(
+    'closeHidden',
+    async () => {
+      await closeBuffers(
+        (await buffer.listBuffers()).filter((node) => node.hidden),
+      );
+    },
+    'close the hidden buffers except the pinned buffers',
+  );
+  action.addNodeAction(
+    'closeUnmodified',
+    async () => {
+      await closeBuffers(
+        (await buffer.listBuffers()).filter((node) => !node.modified),
+      );
+    },
+    'close the unmodified buffers except the pinned buffers',
+  );
+  action.addNodeAction(
+    'closeByDirectory',
+    async ({ node, args }) => {
+      const directory =
+        args[0] ??
+        (node.type === 'group'
+          ? node.fullpath
+          : pathLib.isAbsolute(node.fullpath)
+          ? pathLib.dirname(node.fullpath)
+          : undefined);
+      if (!directory) {
+        return;
+      }
+      await closeBuffers(
+        (
+          await buffer.listBuffers()
+        ).filter((it) => it.fullpath.startsWith(directory + pathLib.sep)),
+      );
+    },
+    'close the buffers in the directory except the pinned buffers',
+    {
+      args: [
+        {
+          name: 'directory',
+          description: 'default: the directory of buffer or group',
+        },
+      ],
+    },
+  );
+
+  action.addNodesAction(
+    'pin',
+    async ({ nodes }) => {
+      buffer.bufManager.setPinned(
+        buffersOfNodes(nodes).map((it) => it.bufnr),
+        true,
+      );
+    },
+    'pin the buffers, the pinned buffers are sorted first and protected from bulk close',
+    { select: true, reload: true },
+  );
+  action.addNodesAction(
+    'unpin',
+    async ({ nodes }) => {
+      buffer.bufManager.setPinned(
+        buffersOfNodes(nodes).map((it) => it.bufnr),
+        false,
+      );
+    },
+    'unpin the buffers',
+    { select: true, reload: true },
+  );
+
+  action.addNodeAction(
+    'sort',
+    async ({ args }) => {
+      let sortType = args[0] as BufferSortType | undefined;
+      if (!sortType) {
+        sortType = await prompt(
+          'Sort by:',
+          [...bufferSortTypeList],
+          buffer.sortType,
+        );
+        if (!sortType) {
+          return;
+        }
+      }
+      if (bufferSortTypeList.includes(sortType)) {
+        buffer.sortType = sortType;
+      } else {
+        window.showMessage(`Unknown sort type: ${sortType}`, 'error');
+      }
+    },
+    'change the sort order of buffers, the pinned buffers are always first',
+    {
+      reload: true,
+      args: [
+        {
+          name: 'sort type',
+          description: bufferSortTypeList.join(' | '),
+        },
+      ],
+      menus: {
+        bufnr: 'by buffer number',
+        mru: 'by most recently used',
+      },
+    },
+  );
+
+  action.addNodeAction(
+    'groupBy',
+    async ({ args }) => {
+      const groupBy = args[0] as BufferGroupBy | undefined;
+      if (!groupBy) {
+        if (buffer.groupBy === 'none') {
+          buffer.groupBy = toggledGroupBy;
+        } else {
+          toggledGroupBy = buffer.groupBy;
+          buffer.groupBy = 'none';
+        }
+      } else if (bufferGroupByList.includes(groupBy)) {
+        buffer.groupBy = groupBy;
+      } else {
+        window.showMessage(`Unknown group type: ${groupBy}`, 'error');
+      }
+    },
+    'group the buffers, toggle the grouping without type',
+    {
+      reload: true,
+      args: [
+        {
+          name: 'group type',
+          description: bufferGroupByList.join(' | '),
+        },
+      ],
+      menus: {
+        none: 'without grouping',
+        directory: 'by directory tree',
+        tab: 'by tab page',
+        window: 'by window',
+      },
+    },
+  );
+
+  action.addConditionRule('hidden?', {
+    filter: (_s, n) => n.hidden,
+    getHelpDescription: () => 'hidden?',
+    description: 'buffer is hidden',
+  });
+  action.addConditionRule('readonly?', {
+    filter: (_s, n) => n.readonly,
+    getHelpDescription: () => 'readonly?',
+    description: 'buffer is readonly',
+  });
+  action.addConditionRule('modified?', {
+    filter: (_s, n) => n.modified,
+    getHelpDescription: () => 'modified?',
+    description: 'buffer is modified',
+  });
+  action.addConditionRule('pinned?', {
+    filter: (_s, n) => n.pinned,
+    getHelpDescription: () => 'pinned?',
+    description: 'buffer is pinned',
+  });
+  action.addConditionRule('visible?', {
+    filter: (_s, n) => n.visible,
+    getHelpDescription: () => 'visible?',
+    description: 'buffer is visible',
+  });
 }
@@ -1,16 +1,20 @@
+import pathLib from 'path';
 import { bufferTabOnly } from '../../../config';
 import { tabContainerManager } from '../../../container';
 import { internalHighlightGroups } from '../../../highlight/internalColors';
 import { hlGroupManager } from '../../../highlight/manager';
+import { BufferGroupBy, BufferSortType } from '../../../types';
+import { displayedFullpath, flatten } from '../../../util';
 import { ViewSource } from '../../../view/viewSource';
-import { BaseTreeNode, ExplorerSource } from '../../source';
+import { BaseTreeNode, ExplorerSource, NodeUid } from '../../source';
 import { sourceManager } from '../../sourceManager';
 import { bufferArgOptions } from './argOptions';
 import { loadBufferActions } from './bufferActions';
 import { bufferColumnRegistrar } from './bufferColumnRegistrar';
 import './load';
 
-export interface BufferNode extends BaseTreeNode<BufferNode, 'root' | 'child'> {
+export interface BufferNode
+  extends BaseTreeNode<BufferNode, 'root' | 'group' | 'child'> {
   bufnr: number;
   bufnrStr: string;
   bufname: string;
@@ -26,8 +30,21 @@ export interface BufferNode extends BaseTreeNode<BufferNode, 'root' | 'child'> {
   terminal: boolean;
   modified: boolean;
   readErrors: boolean;
+  pinned: boolean;
+  /**
+   * The buffers in the group node, including the buffers of sub groups
+   */
+  groupBuffers?: BufferNode[];
 }
 
+/**
+ * The directory tree of buffers, compacted like the file source
+ */
+type DirectoryTree = {
+  buffers: BufferNode[];
+  directories: Map<string, DirectoryTree>;
+};
+
 const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
 
 export const bufferHighlights = {
@@ -39,7 +56,10 @@ export const bufferHighlights = {
   modified: hlg('BufferModified', 'Operator'),
   bufnr: hlg('BufferBufnr', 'Special'),
   readonly: hlg('BufferReadonly', 'Operator'),
+  pinned: hlg('BufferPinned', 'Special'),
   fullpath: hlg('BufferFullpath', internalHighlightGroups.CommentColor),
+  groupName: hlg('BufferGroupName', 'Directory'),
+  groupCount: hlg('BufferGroupCount', internalHighlightGroups.CommentColor),
 };
 
 export class BufferSource extends ExplorerSource<BufferNode> {
@@ -67,9 +87,21 @@ export class BufferSource extends ExplorerSource<BufferNode> {
       terminal: false,
       modified: false,
       readErrors: false,
+      pinned: false,
     },
   );
   tabId?: number;
+  groupBy: BufferGroupBy = this.config.get<BufferGroupBy>('buffer.groupBy')!;
+  sortType: BufferSortType = this.config.get<BufferSortType>('buffer.sort')!;
+  /**
+   * The groups have been expanded by default since the explorer opened
+   */
+  private initedGroups = new Set<string>();
+  private groupChildren = new Map<NodeUid, BufferNode[]>();
+
+  get renderPathsWithParents() {
+    return this.groupBy !== 'none';
+  }
 
   async init() {
     this.disposables.push(
@@ -96,6 +128,10 @@ export class BufferSource extends ExplorerSource<BufferNode> {
       'root',
       await this.explorer.args.value(bufferArgOptions.bufferRootTemplate),
     );
+    await this.view.parseTemplate(
+      'group',
+      await this.explorer.args.value(bufferArgOptions.bufferGroupTemplate),
+    );
     await this.view.parseTemplate(
       'child',
       await this.explorer.args.value(bufferArgOptions.bufferChildTemplate),
@@ -103,9 +139,38 @@ export class BufferSource extends ExplorerSource<BufferNode> {
         bufferArgOptions.bufferChildLabelingTemplate,
       ),
     );
+
+    this.initedGroups.clear();
+  }
+
+  /**
+   * Sort the buffers, the pinned buffers first
+   */
+  private sortBuffers(buffers: BufferNode[]) {
+    return buffers.sort((a, b) => {
+      if (a.pinned !== b.pinned) {
+        return a.pinned ? -1 : 1;
+      }
+      if (this.sortType === 'mru') {
+        const order =
+          this.bufManager.enteredOrder(b.bufnr) -
+          this.bufManager.enteredOrder(a.bufnr);
+        if (order !== 0) {
+          return order;
+        }
+      }
+      return a.bufnr - b.bufnr;
+    });
   }
 
-  async loadChildren(_parentNode: BufferNode, { force = false } = {}) {
+  /**
+   * The buffers displayed in the source, without grouping
+   */
+  async listBuffers({ force = false } = {}) {
+    return this.sortBuffers(await this.filterBuffers({ force }));
+  }
+
+  private async filterBuffers({ force = false } = {}) {
     if (force) {
       await this.bufManager.reload();
     }
@@ -131,6 +196,201 @@ export class BufferSource extends ExplorerSource<BufferNode> {
       }
     }
   }
+
+  private createGroupNode(
+    key: string,
+    name: string,
+    fullpath: string,
+    groupBuffers: BufferNode[],
+  ): BufferNode {
+    const groupNode: BufferNode = {
+      type: 'group',
+      uid: this.helper.getUid(`group:${key}`),
+      expandable: true,
+      bufnr: 0,
+      bufnrStr: '',
+      bufname: '',
+      fullpath,
+      name,
+      unlisted: false,
+      current: groupBuffers.some((it) => it.current),
+      previous: groupBuffers.some((it) => it.previous),
+      visible: groupBuffers.some((it) => it.visible),
+      hidden: groupBuffers.every((it) => it.hidden),
+      modifiable: true,
+      readonly: false,
+      terminal: false,
+      modified: groupBuffers.some((it) => it.modified),
+      readErrors: false,
+      pinned: false,
+      groupBuffers,
+    };
+    if (!this.initedGroups.has(key)) {
+      this.initedGroups.add(key);
+      this.view.setExpanded(groupNode, true);
+    }
+    return groupNode;
+  }
+
+  /**
+   * Group the buffers by directory, the directories that only contain
+   * one directory are compacted into their child
+   */
+  private groupByDirectory(buffers: BufferNode[]) {
+    const tree: DirectoryTree = { buffers: [], directories: new Map() };
+    for (const buffer of buffers) {
+      if (!pathLib.isAbsolute(buffer.fullpath)) {
+        tree.buffers.push(buffer);
+        continue;
+      }
+      let dir = pathLib.dirname(buffer.fullpath);
+      const directories = [dir];
+      while (pathLib.dirname(dir) !== dir) {
+        dir = pathLib.dirname(dir);
+        directories.unshift(dir);
+      }
+      let curTree = tree;
+      for (const directory of directories) {
+        let subTree = curTree.directories.get(directory);
+        if (!subTree) {
+          subTree = { buffers: [], directories: new Map() };
+          curTree.directories.set(directory, subTree);
+        }
+        curTree = subTree;
+      }
+      curTree.buffers.push(buffer);
+    }
+
+    const collectBuffers = (tree: DirectoryTree): BufferNode[] => [
+      ...tree.buffers,
+      ...flatten([...tree.directories.values()].map(collectBuffers)),
+    ];
+    const loadTree = (
+      parentUid: NodeUid,
+      parentPath: string | undefined,
+      tree: DirectoryTree,
+    ) => {
+      const groupNodes: BufferNode[] = [];
+      for (let [fullpath, subTree] of [...tree.directories].sort(([a], [b]) =>
+        a.localeCompare(b),
+      )) {
+        while (!subTree.buffers.length && subTree.directories.size === 1) {
+          [[fullpath, subTree]] = subTree.directories;
+        }
+        const groupNode = this.createGroupNode(
+          `directory:${fullpath}`,
+          parentPath
+            ? pathLib.relative(parentPath, fullpath)
+            : displayedFullpath(fullpath),
+          fullpath,
+          collectBuffers(subTree),
+        );
+        groupNodes.push(groupNode);
+        loadTree(groupNode.uid, fullpath, subTree);
+      }
+      this.groupChildren.set(parentUid, [...groupNodes, ...tree.buffers]);
+    };
+    loadTree(this.view.rootNode.uid, undefined, tree);
+  }
+
+  /**
+   * Group the buffers by the buffer list, a buffer may appear in multiple
+   * groups, the buffers not in any group are in the `Others` group
+   */
+  private groupByList(
+    buffers: BufferNode[],
+    groups: { key: string; name: string; bufnrs: Set<number> }[],
+  ) {
+    const groupNodes: BufferNode[] = [];
+    const groupedBufnrs = new Set<number>();
+    const others = {
+      key: 'others',
+      name: 'Others',
+      bufnrs: new Set(buffers.map((it) => it.bufnr)),
+    };
+    for (const group of [...groups, others]) {
+      const groupBuffers = buffers.filter(
+        (it) =>
+          group.bufnrs.has(it.bufnr) &&
+          (group !== others || !groupedBufnrs.has(it.bufnr)),
+      );
+      groupBuffers.forEach((it) => groupedBufnrs.add(it.bufnr));
+      if (!groupBuffers.length) {
+        continue;
+      }
+      const groupNode = this.createGroupNode(
+        group.key,
+        group.name,
+        '',
+        groupBuffers,
+      );
+      groupNodes.push(groupNode);
+      this.groupChildren.set(
+        groupNode.uid,
+        groupBuffers.map((it) => ({
+          ...it,
+          uid: this.helper.getUid(`${group.key}:${it.bufnr}`),
+        })),
+      );
+    }
+    this.groupChildren.set(this.view.rootNode.uid, groupNodes);
+  }
+
+  private async groupByTab(buffers: BufferNode[]) {
+    const tabCount = (await this.nvim.call('tabpagenr', ['$'])) as number;
+    const groups: { key: string; name: string; bufnrs: Set<number> }[] = [];
+    for (let tabnr = 1; tabnr <= tabCount; tabnr++) {
+      const tabId = (await this.nvim.call('gettabvar', [
+        tabnr,
+        'coc_explorer_tab_id',
+        0,
+      ])) as number;
+      const bufnrs = new Set(
+        (await this.nvim.call('tabpagebuflist', [tabnr])) as number[],
+      );
+      if (tabId) {
+        tabContainerManager.get(tabId).bufnrs.forEach((bufnr) => {
+          bufnrs.add(bufnr);
+        });
+      }
+      groups.push({ key: `tab:${tabnr}`, name: `Tab ${tabnr}`, bufnrs });
+    }
+    this.groupByList(buffers, groups);
+  }
+
+  private async groupByWindow(buffers: BufferNode[]) {
+    const wininfos = (await this.nvim.call('getwininfo')) as {
+      winid: number;
+      winnr: number;
+      tabnr: number;
+      bufnr: number;
+    }[];
+    this.groupByList(
+      buffers,
+      wininfos.map((info) => ({
+        key: `window:${info.winid}`,
+        name: `Tab ${info.tabnr} Window ${info.winnr}`,
+        bufnrs: new Set([info.bufnr]),
+      })),
+    );
+  }
+
+  async loadChildren(parentNode: BufferNode, { force = false } = {}) {
+    if (parentNode.type === 'root') {
+      const buffers = await this.listBuffers({ force });
+      this.groupChildren.clear();
+      if (this.groupBy === 'none') {
+        return buffers;
+      } else if (this.groupBy === 'directory') {
+        this.groupByDirectory(buffers);
+      } else if (this.groupBy === 'tab') {
+        await this.groupByTab(buffers);
+      } else if (this.groupBy === 'window') {
+        await this.groupByWindow(buffers);
+      }
+    }
+    return this.groupChildren.get(parentNode.uid) ?? [];
+  }
 }
 
 sourceManager.registerSource('buffer', BufferSource);
@@ -4,40 +4,55 @@ import {
 } from '../../../../diagnostic/config';
 import { diagnosticHighlights } from '../../../../diagnostic/highlights';
 import { diagnosticManager } from '../../../../diagnostic/manager';
+import { sum } from '../../../../util';
 import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { BufferNode } from '../bufferSource';
 
-bufferColumnRegistrar.registerColumn(
-  'child',
-  'diagnosticError',
-  ({ source, subscriptions }) => {
-    const diagnosticConfig = getDiagnosticConfig(source.config);
+/**
+ * The group node sums the error count of its buffers
+ */
+const getErrorCount = (node: BufferNode) =>
+  node.groupBuffers
+    ? sum(
+        node.groupBuffers.map(
+          (it) => diagnosticManager.getMixedError(it.fullpath) ?? 0,
+        ),
+      )
+    : diagnosticManager.getMixedError(node.fullpath);
 
-    return {
-      init() {
-        subscriptions.push(diagnosticManager.bindColumn(source, ['error']));
-      },
-      draw() {
-        return {
-          labelVisible: ({ node }) =>
-            !!diagnosticManager.getMixedError(node.fullpath),
-          drawNode(row, { node, isLabeling }) {
-            const errorCount = diagnosticManager.getMixedError(node.fullpath);
+for (const type of ['child', 'group'] as const) {
+  bufferColumnRegistrar.registerColumn(
+    type,
+    'diagnosticError',
+    ({ source, subscriptions }) => {
+      const diagnosticConfig = getDiagnosticConfig(source.config);
 
-            if (isLabeling) {
-              row.add((errorCount ?? 0).toString(), {
+      return {
+        init() {
+          subscriptions.push(diagnosticManager.bindColumn(source, ['error']));
+        },
+        draw() {
+          return {
+            labelVisible: ({ node }) => !!getErrorCount(node),
+            drawNode(row, { node, isLabeling }) {
+              const errorCount = getErrorCount(node);
+
+              if (isLabeling) {
+                row.add((errorCount ?? 0).toString(), {
+                  hl: diagnosticHighlights.diagnosticError,
+                });
+                return;
+              }
+              if (!errorCount) {
+                return;
+              }
+              row.add(printDiagnosticCount(errorCount, diagnosticConfig), {
                 hl: diagnosticHighlights.diagnosticError,
               });
-              return;
-            }
-            if (!errorCount) {
-              return;
-            }
-            row.add(printDiagnosticCount(errorCount, diagnosticConfig), {
-              hl: diagnosticHighlights.diagnosticError,
-            });
-          },
-        };
-      },
-    };
-  },
-);
+            },
+          };
+        },
+      };
+    },
+  );
+}
@@ -4,42 +4,55 @@ import {
 } from '../../../../diagnostic/config';
 import { diagnosticHighlights } from '../../../../diagnostic/highlights';
 import { diagnosticManager } from '../../../../diagnostic/manager';
+import { sum } from '../../../../util';
 import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { BufferNode } from '../bufferSource';
 
-bufferColumnRegistrar.registerColumn(
-  'child',
-  'diagnosticWarning',
-  ({ source, subscriptions }) => {
-    const diagnosticConfig = getDiagnosticConfig(source.config);
+/**
+ * The group node sums the warning count of its buffers
+ */
+const getWarningCount = (node: BufferNode) =>
+  node.groupBuffers
+    ? sum(
+        node.groupBuffers.map(
+          (it) => diagnosticManager.getMixedWarning(it.fullpath) ?? 0,
+        ),
+      )
+    : diagnosticManager.getMixedWarning(node.fullpath);
 
-    return {
-      init() {
-        subscriptions.push(diagnosticManager.bindColumn(source, ['warning']));
-      },
-      draw() {
-        return {
-          labelVisible: ({ node }) =>
-            !!diagnosticManager.getMixedWarning(node.fullpath),
-          drawNode(row, { node, isLabeling }) {
-            const warningCount = diagnosticManager.getMixedWarning(
-              node.fullpath,
-            );
+for (const type of ['child', 'group'] as const) {
+  bufferColumnRegistrar.registerColumn(
+    type,
+    'diagnosticWarning',
+    ({ source, subscriptions }) => {
+      const diagnosticConfig = getDiagnosticConfig(source.config);
 
-            if (isLabeling) {
-              row.add((warningCount ?? 0).toString(), {
+      return {
+        init() {
+          subscriptions.push(diagnosticManager.bindColumn(source, ['warning']));
+        },
+        draw() {
+          return {
+            labelVisible: ({ node }) => !!getWarningCount(node),
+            drawNode(row, { node, isLabeling }) {
+              const warningCount = getWarningCount(node);
+
+              if (isLabeling) {
+                row.add((warningCount ?? 0).toString(), {
+                  hl: diagnosticHighlights.diagnosticWarning,
+                });
+                return;
+              }
+              if (!warningCount) {
+                return;
+              }
+              row.add(printDiagnosticCount(warningCount, diagnosticConfig), {
                 hl: diagnosticHighlights.diagnosticWarning,
               });
-              return;
-            }
-            if (!warningCount) {
-              return;
-            }
-            row.add(printDiagnosticCount(warningCount, diagnosticConfig), {
-              hl: diagnosticHighlights.diagnosticWarning,
-            });
-          },
-        };
-      },
-    };
-  },
-);
+            },
+          };
+        },
+      };
+    },
+  );
+}
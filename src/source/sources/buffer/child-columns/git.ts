@@ -1,92 +1,128 @@
 import { getStatusIcons } from '../../../../git/config';
 import { gitHighlights } from '../../../../git/highlights';
 import { gitManager } from '../../../../git/manager';
-import { GitFormat } from '../../../../git/types';
+import { GitFormat, GitMixedStatus } from '../../../../git/types';
 import { FilenameHighlight } from '../../../../highlight/filename';
 import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { BufferNode } from '../bufferSource';
 
-bufferColumnRegistrar.registerColumn(
-  'child',
-  'git',
-  ({ source, subscriptions }) => {
-    const filenameHighlight = new FilenameHighlight(source.config);
-    const icons = getStatusIcons(source.config);
+const mixFormat = <F extends GitFormat>(a: F, b: F): F => {
+  if (a === b || b === GitFormat.unmodified) {
+    return a;
+  }
+  if (a === GitFormat.unmodified) {
+    return b;
+  }
+  return GitFormat.mixed as F;
+};
 
-    const getHighlight = (fullpath: string, staged: boolean) => {
-      if (staged) {
-        return gitHighlights.staged;
-      } else {
-        return (
-          filenameHighlight.getHighlight(fullpath, false, ['git']) ??
-          gitHighlights.unstaged
-        );
-      }
-    };
+/**
+ * The group node mixes the statuses of its buffers like a directory
+ */
+const getStatus = (node: BufferNode): GitMixedStatus | undefined => {
+  if (!node.groupBuffers) {
+    return gitManager.getMixedStatus(node.fullpath, false);
+  }
+  let mixedStatus: GitMixedStatus | undefined;
+  for (const buffer of node.groupBuffers) {
+    const status = gitManager.getMixedStatus(buffer.fullpath, false);
+    if (!status || status.x === GitFormat.ignored) {
+      continue;
+    }
+    mixedStatus = mixedStatus
+      ? {
+          x: mixFormat(mixedStatus.x, status.x),
+          y: mixFormat(mixedStatus.y, status.y),
+        }
+      : { ...status };
+  }
+  return mixedStatus;
+};
 
-    return {
-      init() {
-        subscriptions.push(gitManager.bindColumn(source));
-      },
-      async available() {
-        return await gitManager.cmd.available();
-      },
-      async draw() {
-        return {
-          async labelVisible({ node }) {
-            const status = gitManager.getMixedStatus(node.fullpath, false);
-            if (!status) {
-              return false;
-            }
-            return (
-              status.x !== GitFormat.unmodified ||
-              status.y !== GitFormat.unmodified
-            );
-          },
-          drawNode(row, { node, nodeIndex, isLabeling }) {
-            const showFormat = (f: GitFormat, staged: boolean) => {
-              const hl = getHighlight(node.fullpath, staged);
-              if (isLabeling) {
-                row.add(`${icons[f].name}(${icons[f].icon})`, {
-                  hl,
-                });
-              } else {
-                row.add(icons[f].icon, {
-                  hl,
-                });
-              }
-            };
-            const status = gitManager.getMixedStatus(node.fullpath, false);
-            if (status) {
-              showFormat(status.x, true);
-              if (isLabeling) {
-                row.add(' ');
+for (const type of ['child', 'group'] as const) {
+  bufferColumnRegistrar.registerColumn(
+    type,
+    'git',
+    ({ source, subscriptions }) => {
+      const filenameHighlight = new FilenameHighlight(source.config);
+      const icons = getStatusIcons(source.config);
+
+      const getHighlight = (fullpath: string, staged: boolean) => {
+        if (staged) {
+          return gitHighlights.staged;
+        } else {
+          return (
+            filenameHighlight.getHighlight(fullpath, false, ['git']) ??
+            gitHighlights.unstaged
+          );
+        }
+      };
+
+      return {
+        init() {
+          subscriptions.push(gitManager.bindColumn(source));
+        },
+        async available() {
+          return await gitManager.cmd.available();
+        },
+        async draw() {
+          return {
+            async labelVisible({ node }) {
+              const status = getStatus(node);
+              if (!status) {
+                return false;
               }
-              showFormat(status.y, false);
-              if (status.x === GitFormat.ignored) {
-                source.locator.mark.remove('git', nodeIndex);
-                source.locator.mark.remove('gitStaged', nodeIndex);
-                source.locator.mark.remove('gitUnstaged', nodeIndex);
-              } else {
-                source.locator.mark.add('git', nodeIndex);
-                if (status.x !== GitFormat.unmodified) {
-                  source.locator.mark.add('gitStaged', nodeIndex);
+              return (
+                status.x !== GitFormat.unmodified ||
+                status.y !== GitFormat.unmodified
+              );
+            },
+            drawNode(row, { node, nodeIndex, isLabeling }) {
+              const showFormat = (f: GitFormat, staged: boolean) => {
+                const hl = getHighlight(node.fullpath, staged);
+                if (isLabeling) {
+                  row.add(`${icons[f].name}(${icons[f].icon})`, {
+                    hl,
+                  });
                 } else {
-                  source.locator.mark.remove('gitStaged', nodeIndex);
+                  row.add(icons[f].icon, {
+                    hl,
+                  });
                 }
-                if (status.y !== GitFormat.unmodified) {
-                  source.locator.mark.add('gitUnstaged', nodeIndex);
-                } else {
+              };
+              const status = getStatus(node);
+              if (status) {
+                showFormat(status.x, true);
+                if (isLabeling) {
+                  row.add(' ');
+                }
+                showFormat(status.y, false);
+                if (status.x === GitFormat.ignored) {
+                  source.locator.mark.remove('git', nodeIndex);
+                  source.locator.mark.remove('gitStaged', nodeIndex);
                   source.locator.mark.remove('gitUnstaged', nodeIndex);
+                } else {
+                  source.locator.mark.add('git', nodeIndex);
+                  if (status.x !== GitFormat.unmodified) {
+                    source.locator.mark.add('gitStaged', nodeIndex);
+                  } else {
+                    source.locator.mark.remove('gitStaged', nodeIndex);
+                  }
+                  if (status.y !== GitFormat.unmodified) {
+                    source.locator.mark.add('gitUnstaged', nodeIndex);
+                  } else {
+                    source.locator.mark.remove('gitUnstaged', nodeIndex);
+                  }
                 }
+              } else {
+                source.locator.mark.remove('git', nodeIndex);
+                source.locator.mark.remove('gitStaged', nodeIndex);
+                source.locator.mark.remove('gitUnstaged', nodeIndex);
               }
-            } else {
-              source.locator.mark.remove('git', nodeIndex);
-              source.locator.mark.remove('gitStaged', nodeIndex);
-              source.locator.mark.remove('gitUnstaged', nodeIndex);
-            }
-          },
-        };
-      },
-    };
-  },
-);
+            },
+          };
+        },
+      };
+    },
+  );
+}
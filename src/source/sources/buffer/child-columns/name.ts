@@ -19,7 +19,7 @@ bufferColumnRegistrar.registerColumn('child', 'name', ({ source }) => {
     draw() {
       return {
         drawNode(row, { node }) {
-          row.add(node.name, {
+          source.view.filter.drawName(row, node, {
             hl: getHighlight(node.fullpath, node.visible),
           });
         },
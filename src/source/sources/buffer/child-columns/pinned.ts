@@ -0,0 +1,15 @@
+import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { bufferHighlights } from '../bufferSource';
+
+bufferColumnRegistrar.registerColumn('child', 'pinned', ({ source }) => ({
+  draw() {
+    return {
+      labelVisible: ({ node }) => node.pinned,
+      drawNode(row, { node }) {
+        if (node.pinned) {
+          row.add(source.icons.pinned, { hl: bufferHighlights.pinned });
+        }
+      },
+    };
+  },
+}));
@@ -1,13 +1,15 @@
 import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
 
-bufferColumnRegistrar.registerColumn('child', 'selection', ({ source }) => ({
-  draw() {
-    return {
-      drawNode(row, { node }) {
-        if (source.isSelectedNode(node)) {
-          row.add(source.icons.selected);
-        }
-      },
-    };
-  },
-}));
+for (const type of ['child', 'group'] as const) {
+  bufferColumnRegistrar.registerColumn(type, 'selection', ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          if (source.isSelectedNode(node)) {
+            row.add(source.icons.selected);
+          }
+        },
+      };
+    },
+  }));
+}
@@ -0,0 +1,14 @@
+import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { bufferHighlights } from '../bufferSource';
+
+bufferColumnRegistrar.registerColumn('group', 'count', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(`(${node.groupBuffers?.length ?? 0})`, {
+          hl: bufferHighlights.groupCount,
+        });
+      },
+    };
+  },
+}));
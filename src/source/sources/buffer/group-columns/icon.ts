@@ -0,0 +1,17 @@
+import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { bufferHighlights } from '../bufferSource';
+
+bufferColumnRegistrar.registerColumn('group', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: bufferHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
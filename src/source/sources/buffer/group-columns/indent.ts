@@ -0,0 +1,11 @@
+import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+
+bufferColumnRegistrar.registerColumn('group', 'indent', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add('  '.repeat((node.level ?? 1) - 1));
+      },
+    };
+  },
+}));
@@ -0,0 +1,14 @@
+import { bufferColumnRegistrar } from '../bufferColumnRegistrar';
+import { bufferHighlights } from '../bufferSource';
+
+bufferColumnRegistrar.registerColumn('group', 'name', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        source.view.filter.drawName(row, node, {
+          hl: bufferHighlights.groupName,
+        });
+      },
+    };
+  },
+}));
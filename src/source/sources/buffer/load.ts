@@ -2,8 +2,14 @@ import './root-columns/icon';
 import './root-columns/title';
 import './root-columns/hidden';
 
+import './group-columns/indent';
+import './group-columns/icon';
+import './group-columns/name';
+import './group-columns/count';
+
 import './child-columns/git';
 import './child-columns/selection';
+import './child-columns/indent';
 import './child-columns/name';
 import './child-columns/bufname';
 import './child-columns/modified';
@@ -11,4 +17,5 @@ import './child-columns/bufnr';
 import './child-columns/diagnosticError';
 import './child-columns/diagnosticWarning';
 import './child-columns/readonly';
+import './child-columns/pinned';
 import './child-columns/fullpath';
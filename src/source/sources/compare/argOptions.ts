@@ -0,0 +1,19 @@
+import { config } from '../../../config';
+import { Args } from '../../../arg/parseArgs';
+
+export const compareArgOptions = {
+  compareBase: Args.registerOption<string>('compare-base'),
+  compareTarget: Args.registerOption<string>('compare-target'),
+  compareRootTemplate: Args.registerOption<string>('compare-root-template', {
+    getDefault: () => config.get<string>('compare.root.template')!,
+  }),
+  compareChildTemplate: Args.registerOption<string>('compare-child-template', {
+    getDefault: () => config.get<string>('compare.child.template')!,
+  }),
+  compareChildLabelingTemplate: Args.registerOption<string>(
+    'compare-child-labeling-template',
+    {
+      getDefault: () => config.get<string>('compare.child.labelingTemplate')!,
+    },
+  ),
+};
@@ -0,0 +1,16 @@
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights } from '../compareSource';
+
+compareColumnRegistrar.registerColumn('child', 'filename', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(node.name, {
+          hl: node.directory
+            ? compareHighlights.directory
+            : compareHighlights.filename,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,42 @@
+import { IconTarget, loadIconsByConfig } from '../../../../icon/icons';
+import { nerdfontHighlights } from '../../../../icon/nerdfont';
+import { ColumnDrawHandle } from '../../../columnRegistrar';
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights, CompareNode } from '../compareSource';
+
+compareColumnRegistrar.registerColumn('child', 'icon', ({ source }) => ({
+  async draw(nodes): Promise<ColumnDrawHandle<CompareNode>> {
+    const iconTargets: IconTarget[] = nodes.map((node) => ({
+      fullname: node.name,
+      hidden: node.name.startsWith('.'),
+      isDirectory: node.directory,
+      expanded: node.directory ? source.view.isExpanded(node) : undefined,
+    }));
+    const icons = await loadIconsByConfig(source.config, iconTargets);
+
+    return {
+      drawNode(row, { node }) {
+        if (node.directory) {
+          const icon = icons?.directories.get(node.name);
+          if (icon) {
+            row.add(icon.code, { hl: compareHighlights.directory });
+          } else {
+            row.add(
+              source.view.isExpanded(node)
+                ? source.icons.expanded
+                : source.icons.collapsed,
+              { hl: compareHighlights.expandIcon },
+            );
+          }
+        } else {
+          const icon = icons?.files.get(node.name);
+          if (icon) {
+            row.add(icon.code, {
+              hl: icon.highlight ?? nerdfontHighlights.file,
+            });
+          }
+        }
+      },
+    };
+  },
+}));
@@ -0,0 +1,11 @@
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+
+compareColumnRegistrar.registerColumn('child', 'indent', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add('  '.repeat((node.level ?? 1) - 1));
+      },
+    };
+  },
+}));
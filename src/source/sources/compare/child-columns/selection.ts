@@ -0,0 +1,13 @@
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+
+compareColumnRegistrar.registerColumn('child', 'selection', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (source.isSelectedNode(node)) {
+          row.add(source.icons.selected);
+        }
+      },
+    };
+  },
+}));
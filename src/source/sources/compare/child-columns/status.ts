@@ -0,0 +1,27 @@
+import { CompareStatus } from '../compareDirectories';
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights } from '../compareSource';
+
+const statusIcons: Record<CompareStatus, string> = {
+  added: 'A',
+  removed: 'D',
+  changed: 'M',
+};
+
+compareColumnRegistrar.registerColumn('child', 'status', () => ({
+  draw() {
+    return {
+      drawNode(row, { node, isLabeling }) {
+        if (!node.status) {
+          return;
+        }
+        const hl = compareHighlights.status[node.status];
+        if (isLabeling) {
+          row.add(`${node.status}(${statusIcons[node.status]})`, { hl });
+        } else {
+          row.add(statusIcons[node.status], { hl });
+        }
+      },
+    };
+  },
+}));
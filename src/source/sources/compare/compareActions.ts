@@ -0,0 +1,51 @@
+import { workspace } from 'coc.nvim';
+import { ActionSource } from '../../../actions/actionSource';
+import { CompareNode, CompareSource } from './compareSource';
+
+/**
+ * Open the diff of two files in a new tab,
+ * the missing side is displayed as an empty buffer
+ */
+export async function openDiffTab(basePath?: string, targetPath?: string) {
+  const { nvim } = workspace;
+  const escape = async (path: string): Promise<string> =>
+    await nvim.call('fnameescape', [path]);
+  const [escapedBasePath, escapedTargetPath] = await Promise.all([
+    basePath ? escape(basePath) : undefined,
+    targetPath ? escape(targetPath) : undefined,
+  ]);
+  nvim.pauseNotification();
+  if (escapedTargetPath) {
+    nvim.command(`tabedit ${escapedTargetPath}`, true);
+  } else {
+    nvim.command('tabnew', true);
+    nvim.command('setlocal buftype=nofile bufhidden=wipe noswapfile', true);
+  }
+  nvim.command('diffthis', true);
+  if (escapedBasePath) {
+    nvim.command(`vertical leftabove split ${escapedBasePath}`, true);
+  } else {
+    nvim.command('vertical leftabove new', true);
+    nvim.command('setlocal buftype=nofile bufhidden=wipe noswapfile', true);
+  }
+  nvim.command('diffthis', true);
+  nvim.command('wincmd p', true);
+  await nvim.resumeNotification();
+}
+
+export function loadCompareActions(
+  action: ActionSource<CompareSource, CompareNode>,
+) {
+  const compare = action.owner;
+
+  action.addNodeAction(
+    'compareDiff',
+    async ({ node }) => {
+      if (node.type !== 'child' || node.directory) {
+        return;
+      }
+      await openDiffTab(...compare.comparedPaths(node));
+    },
+    'open the diff of file in a new tab',
+  );
+}
@@ -0,0 +1,9 @@
+import { CompareNode, CompareSource } from './compareSource';
+import { ColumnRegistrar } from '../../columnRegistrar';
+
+class CompareColumnRegistrar extends ColumnRegistrar<
+  CompareNode,
+  CompareSource
+> {}
+
+export const compareColumnRegistrar = new CompareColumnRegistrar();
@@ -0,0 +1,75 @@
+import fs from 'fs';
+import os from 'os';
+import pathLib from 'path';
+import { fsMkdirp, fsRimraf, fsWriteFile } from '../../../util';
+import { compareDirectories } from './compareDirectories';
+
+const root = pathLib.join(os.tmpdir(), `coc-explorer-compare-${process.pid}`);
+const base = pathLib.join(root, 'base');
+const target = pathLib.join(root, 'target');
+
+async function writeFiles(dir: string, files: Record<string, string>) {
+  for (const [path, content] of Object.entries(files)) {
+    const fullpath = pathLib.join(dir, path);
+    await fsMkdirp(pathLib.dirname(fullpath));
+    await fsWriteFile(fullpath, content);
+  }
+}
+
+beforeAll(async () => {
+  await writeFiles(base, {
+    'same.txt': 'same',
+    'changed.txt': 'base',
+    'removed.txt': 'removed',
+    'lib/same.txt': 'same',
+    'lib/changed.txt': 'base',
+    'old/a.txt': 'a',
+  });
+  await writeFiles(target, {
+    'same.txt': 'same',
+    'changed.txt': 'target',
+    'added.txt': 'added',
+    'lib/same.txt': 'same',
+    'lib/changed.txt': 'target',
+    'new/b.txt': 'b',
+  });
+});
+
+afterAll(async () => {
+  await fsRimraf(root);
+});
+
+test('compareDirectories', async () => {
+  const entries = await compareDirectories(base, target);
+  const summary = (dir: string) =>
+    entries.get(dir)?.map((it) => `${it.status} ${it.relativePath}`);
+  expect(summary('')).toEqual([
+    'changed lib',
+    'added new',
+    'removed old',
+    'added added.txt',
+    'changed changed.txt',
+    'removed removed.txt',
+  ]);
+  expect(summary('lib')).toEqual([
+    `changed ${pathLib.join('lib', 'changed.txt')}`,
+  ]);
+  expect(summary('new')).toEqual([`added ${pathLib.join('new', 'b.txt')}`]);
+  expect(summary('old')).toEqual([`removed ${pathLib.join('old', 'a.txt')}`]);
+});
+
+test('compareDirectories with symlinks', async () => {
+  const linksBase = pathLib.join(root, 'links-base');
+  const linksTarget = pathLib.join(root, 'links-target');
+  for (const dir of [linksBase, linksTarget]) {
+    await writeFiles(dir, { 'lib/a.txt': 'a', 'new/b.txt': 'b' });
+    await fs.promises.symlink('lib', pathLib.join(dir, 'same'));
+  }
+  await fs.promises.symlink('lib', pathLib.join(linksBase, 'changed'));
+  await fs.promises.symlink('new', pathLib.join(linksTarget, 'changed'));
+
+  const entries = await compareDirectories(linksBase, linksTarget);
+  expect(
+    entries.get('')?.map((it) => `${it.status} ${it.relativePath}`),
+  ).toEqual(['changed changed']);
+});
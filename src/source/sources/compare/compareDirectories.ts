@@ -0,0 +1,195 @@
+import pathLib from 'path';
+import {
+  fsLstat,
+  fsReaddir,
+  fsReadFile,
+  fsReadlink,
+  fsStat,
+} from '../../../util';
+
+export type CompareStatus = 'added' | 'removed' | 'changed';
+
+/**
+ * The different entry between the base and target directory
+ */
+export interface CompareEntry {
+  name: string;
+  /**
+   * The path relative to the compared directories
+   */
+  relativePath: string;
+  directory: boolean;
+  status: CompareStatus;
+}
+
+/**
+ * entries[relative directory] = the different entries in the directory
+ */
+export type CompareEntries = Map<string, CompareEntry[]>;
+
+interface DirectoryEntry {
+  directory: boolean;
+  /**
+   * The symlink is compared by its target, including the symlink to directory
+   */
+  symlink: boolean;
+}
+
+async function readEntries(directory: string) {
+  const entries = new Map<string, DirectoryEntry>();
+  try {
+    for (const name of await fsReaddir(directory)) {
+      try {
+        const stat = await fsLstat(pathLib.join(directory, name));
+        entries.set(name, {
+          directory: stat.isDirectory(),
+          symlink: stat.isSymbolicLink(),
+        });
+      } catch {
+        // the file is removed during reading
+      }
+    }
+  } catch {
+    // the directory does not exist
+  }
+  return entries;
+}
+
+async function fileEqual(
+  basePath: string,
+  targetPath: string,
+  baseEntry: DirectoryEntry,
+  targetEntry: DirectoryEntry,
+) {
+  try {
+    if (baseEntry.symlink || targetEntry.symlink) {
+      return (
+        baseEntry.symlink &&
+        targetEntry.symlink &&
+        (await fsReadlink(basePath)) === (await fsReadlink(targetPath))
+      );
+    }
+    const [baseStat, targetStat] = await Promise.all([
+      fsStat(basePath),
+      fsStat(targetPath),
+    ]);
+    if (baseStat.size !== targetStat.size) {
+      return false;
+    }
+    const [baseContent, targetContent] = await Promise.all([
+      fsReadFile(basePath),
+      fsReadFile(targetPath),
+    ]);
+    return baseContent.equals(targetContent);
+  } catch {
+    return false;
+  }
+}
+
+function sortEntries(entries: CompareEntry[]) {
+  return entries.sort((a, b) =>
+    a.directory !== b.directory
+      ? a.directory
+        ? -1
+        : 1
+      : a.name.localeCompare(b.name),
+  );
+}
+
+/**
+ * Compare two directories recursively, the unchanged entries are omitted
+ */
+export async function compareDirectories(
+  basePath: string,
+  targetPath: string,
+): Promise<CompareEntries> {
+  const result: CompareEntries = new Map();
+
+  /**
+   * List all entries of the directory only exists in one side
+   */
+  const listAll = async (
+    rootPath: string,
+    relativeDir: string,
+    status: CompareStatus,
+  ) => {
+    const entries: CompareEntry[] = [];
+    for (const [name, { directory }] of await readEntries(
+      pathLib.join(rootPath, relativeDir),
+    )) {
+      const relativePath = pathLib.join(relativeDir, name);
+      entries.push({ name, relativePath, directory, status });
+      if (directory) {
+        await listAll(rootPath, relativePath, status);
+      }
+    }
+    result.set(relativeDir, sortEntries(entries));
+  };
+
+  const compare = async (relativeDir: string) => {
+    const [baseEntries, targetEntries] = await Promise.all([
+      readEntries(pathLib.join(basePath, relativeDir)),
+      readEntries(pathLib.join(targetPath, relativeDir)),
+    ]);
+    const entries: CompareEntry[] = [];
+    const names = new Set([...baseEntries.keys(), ...targetEntries.keys()]);
+    for (const name of names) {
+      const relativePath = pathLib.join(relativeDir, name);
+      const baseEntry = baseEntries.get(name);
+      const targetEntry = targetEntries.get(name);
+      const baseDirectory = baseEntry?.directory;
+      const targetDirectory = targetEntry?.directory;
+      if (baseDirectory === undefined) {
+        entries.push({
+          name,
+          relativePath,
+          directory: targetDirectory!,
+          status: 'added',
+        });
+        if (targetDirectory) {
+          await listAll(targetPath, relativePath, 'added');
+        }
+      } else if (targetDirectory === undefined) {
+        entries.push({
+          name,
+          relativePath,
+          directory: baseDirectory,
+          status: 'removed',
+        });
+        if (baseDirectory) {
+          await listAll(basePath, relativePath, 'removed');
+        }
+      } else if (baseDirectory && targetDirectory) {
+        if (await compare(relativePath)) {
+          entries.push({
+            name,
+            relativePath,
+            directory: true,
+            status: 'changed',
+          });
+        }
+      } else if (
+        baseDirectory !== targetDirectory ||
+        !(await fileEqual(
+          pathLib.join(basePath, relativePath),
+          pathLib.join(targetPath, relativePath),
+          baseEntry!,
+          targetEntry!,
+        ))
+      ) {
+        // a file replaced by a directory is also regarded as changed file
+        entries.push({
+          name,
+          relativePath,
+          directory: false,
+          status: 'changed',
+        });
+      }
+    }
+    result.set(relativeDir, sortEntries(entries));
+    return entries.length > 0;
+  };
+
+  await compare('');
+  return result;
+}
@@ -0,0 +1,130 @@
+import pathLib from 'path';
+import { internalHighlightGroups } from '../../../highlight/internalColors';
+import { hlGroupManager } from '../../../highlight/manager';
+import { ViewSource } from '../../../view/viewSource';
+import { BaseTreeNode, ExplorerSource } from '../../source';
+import { sourceManager } from '../../sourceManager';
+import { compareArgOptions } from './argOptions';
+import { loadCompareActions } from './compareActions';
+import { compareColumnRegistrar } from './compareColumnRegistrar';
+import {
+  CompareEntries,
+  compareDirectories,
+  CompareStatus,
+} from './compareDirectories';
+import './load';
+
+export interface CompareNode
+  extends BaseTreeNode<CompareNode, 'root' | 'child'> {
+  fullpath: string;
+  name: string;
+  /**
+   * The path relative to the compared directories
+   */
+  relativePath: string;
+  directory: boolean;
+  status?: CompareStatus;
+}
+
+const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
+
+export const compareHighlights = {
+  title: hlg('CompareRoot', 'Constant'),
+  expandIcon: hlg('CompareExpandIcon', 'Directory'),
+  paths: hlg('ComparePaths', internalHighlightGroups.CommentColor),
+  filename: hlg('CompareFilename', 'None'),
+  directory: hlg('CompareDirectory', 'Directory'),
+  status: {
+    added: hlg('CompareAdded', 'DiffAdd'),
+    removed: hlg('CompareRemoved', 'DiffDelete'),
+    changed: hlg('CompareChanged', 'DiffChange'),
+  },
+};
+
+export class CompareSource extends ExplorerSource<CompareNode> {
+  view: ViewSource<CompareNode> = new ViewSource<CompareNode>(
+    this,
+    compareColumnRegistrar,
+    {
+      type: 'root',
+      isRoot: true,
+      expandable: true,
+      uid: this.helper.getUid(pathLib.sep),
+      name: '',
+      fullpath: '',
+      relativePath: '',
+      directory: true,
+    },
+  );
+  /**
+   * The directory compared from, e.g. the old version
+   */
+  basePath = '';
+  /**
+   * The directory compared to, e.g. the new version
+   */
+  targetPath = '';
+  private entries: CompareEntries = new Map();
+
+  async init() {
+    loadCompareActions(this.action);
+  }
+
+  async open() {
+    await this.view.parseTemplate(
+      'root',
+      await this.explorer.args.value(compareArgOptions.compareRootTemplate),
+    );
+    await this.view.parseTemplate(
+      'child',
+      await this.explorer.args.value(compareArgOptions.compareChildTemplate),
+      await this.explorer.args.value(
+        compareArgOptions.compareChildLabelingTemplate,
+      ),
+    );
+
+    this.basePath =
+      (await this.explorer.args.value(compareArgOptions.compareBase)) ?? '';
+    this.targetPath =
+      (await this.explorer.args.value(compareArgOptions.compareTarget)) ?? '';
+    this.view.rootNode.fullpath = this.targetPath;
+  }
+
+  /**
+   * Get the paths of both sides, the path is undefined when the entry does not exist in that side
+   */
+  comparedPaths(node: CompareNode): [base?: string, target?: string] {
+    return [
+      node.status === 'added'
+        ? undefined
+        : pathLib.join(this.basePath, node.relativePath),
+      node.status === 'removed'
+        ? undefined
+        : pathLib.join(this.targetPath, node.relativePath),
+    ];
+  }
+
+  async loadChildren(parentNode: CompareNode): Promise<CompareNode[]> {
+    if (parentNode.type === 'root') {
+      this.entries =
+        this.basePath && this.targetPath
+          ? await compareDirectories(this.basePath, this.targetPath)
+          : new Map();
+    }
+    return (this.entries.get(parentNode.relativePath) ?? []).map((entry) => ({
+      type: 'child',
+      uid: this.helper.getUid(entry.relativePath),
+      expandable: entry.directory,
+      fullpath: pathLib.join(
+        entry.status === 'removed' ? this.basePath : this.targetPath,
+        entry.relativePath,
+      ),
+      name: entry.name,
+      relativePath: entry.relativePath,
+      directory: entry.directory,
+      status: entry.status,
+    }));
+  }
+}
+
+sourceManager.registerSource('compare', CompareSource);
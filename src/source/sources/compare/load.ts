@@ -0,0 +1,9 @@
+import './root-columns/icon';
+import './root-columns/title';
+import './root-columns/paths';
+
+import './child-columns/selection';
+import './child-columns/indent';
+import './child-columns/icon';
+import './child-columns/status';
+import './child-columns/filename';
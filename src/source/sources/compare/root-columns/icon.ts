@@ -0,0 +1,17 @@
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights } from '../compareSource';
+
+compareColumnRegistrar.registerColumn('root', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: compareHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
@@ -0,0 +1,18 @@
+import { displayedFullpath } from '../../../../util';
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights } from '../compareSource';
+
+compareColumnRegistrar.registerColumn('root', 'paths', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row) {
+        row.add(
+          `${displayedFullpath(source.basePath)} -> ${displayedFullpath(
+            source.targetPath,
+          )}`,
+          { hl: compareHighlights.paths },
+        );
+      },
+    };
+  },
+}));
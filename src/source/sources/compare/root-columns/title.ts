@@ -0,0 +1,14 @@
+import { compareColumnRegistrar } from '../compareColumnRegistrar';
+import { compareHighlights } from '../compareSource';
+
+compareColumnRegistrar.registerColumn('root', 'title', () => ({
+  draw() {
+    return {
+      drawNode(row) {
+        row.add('[COMPARE]', {
+          hl: compareHighlights.title,
+        });
+      },
+    };
+  },
+}));
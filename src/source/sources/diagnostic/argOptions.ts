@@ -0,0 +1,30 @@
+import { config } from '../../../config';
+import { Args } from '../../../arg/parseArgs';
+
+export const diagnosticArgOptions = {
+  diagnosticRootTemplate: Args.registerOption<string>(
+    'diagnostic-root-template',
+    {
+      getDefault: () => config.get<string>('diagnostic.root.template')!,
+    },
+  ),
+  diagnosticFileTemplate: Args.registerOption<string>(
+    'diagnostic-file-template',
+    {
+      getDefault: () => config.get<string>('diagnostic.file.template')!,
+    },
+  ),
+  diagnosticChildTemplate: Args.registerOption<string>(
+    'diagnostic-child-template',
+    {
+      getDefault: () => config.get<string>('diagnostic.child.template')!,
+    },
+  ),
+  diagnosticChildLabelingTemplate: Args.registerOption<string>(
+    'diagnostic-child-labeling-template',
+    {
+      getDefault: () =>
+        config.get<string>('diagnostic.child.labelingTemplate')!,
+    },
+  ),
+};
@@ -0,0 +1,15 @@
+import { displayedFullpath } from '../../../../util';
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('child', 'fullpath', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(displayedFullpath(node.fullpath), {
+          hl: diagnosticSourceHighlights.fullpath,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,14 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('child', 'message', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        source.view.filter.drawName(row, node, {
+          hl: diagnosticSourceHighlights.message,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,14 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('child', 'position', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(`${node.lnum}:${node.col}`, {
+          hl: diagnosticSourceHighlights.position,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,17 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+
+diagnosticColumnRegistrar.registerColumn(
+  'child',
+  'selection',
+  ({ source }) => ({
+    draw() {
+      return {
+        drawNode(row, { node }) {
+          if (source.isSelectedNode(node)) {
+            row.add(source.icons.selected);
+          }
+        },
+      };
+    },
+  }),
+);
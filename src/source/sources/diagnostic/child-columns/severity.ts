@@ -0,0 +1,28 @@
+import { workspace } from 'coc.nvim';
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('child', 'severity', () => {
+  // use the signs of coc diagnostic
+  const cocConfig = workspace.getConfiguration('diagnostic');
+  const signs = {
+    error: cocConfig.get<string>('errorSign', '>>'),
+    warning: cocConfig.get<string>('warningSign', '⚠'),
+    info: cocConfig.get<string>('infoSign', '>>'),
+    hint: cocConfig.get<string>('hintSign', '>>'),
+  };
+
+  return {
+    draw() {
+      return {
+        drawNode(row, { node, isLabeling }) {
+          if (!node.severity) {
+            return;
+          }
+          const hl = diagnosticSourceHighlights.severity[node.severity];
+          row.add(isLabeling ? node.severity : signs[node.severity], { hl });
+        },
+      };
+    },
+  };
+});
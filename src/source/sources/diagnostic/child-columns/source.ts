@@ -0,0 +1,19 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('child', 'source', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (!node.diagnosticSource) {
+          return;
+        }
+        const code =
+          node.code !== undefined && node.code !== '' ? `(${node.code})` : '';
+        row.add(`${node.diagnosticSource}${code}`, {
+          hl: diagnosticSourceHighlights.diagnosticSource,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,56 @@
+import { ActionSource } from '../../../actions/actionSource';
+import { DiagnosticSeverity, diagnosticSeverityList } from '../../../types';
+import { DiagnosticNode, DiagnosticSource } from './diagnosticSource';
+
+export function loadDiagnosticActions(
+  action: ActionSource<DiagnosticSource, DiagnosticNode>,
+) {
+  const diagnostic = action.owner;
+
+  action.addNodeAction(
+    'filterSeverity',
+    async ({ args }) => {
+      const severities = args[0]
+        ? (args[0]
+            .split('|')
+            .filter((severity) =>
+              (diagnosticSeverityList as readonly string[]).includes(severity),
+            ) as DiagnosticSeverity[])
+        : diagnosticSeverityList;
+      diagnostic.severities = new Set(severities);
+    },
+    'filter the diagnostics by severities, without severities means all',
+    {
+      reload: true,
+      args: [
+        {
+          name: 'severities',
+          description: `${diagnosticSeverityList.join(
+            ' | ',
+          )}, multiple severities are separated by |, e.g. error|warning`,
+        },
+      ],
+      menus: {
+        error: 'only error',
+        'error|warning': 'only error and warning',
+      },
+    },
+  );
+
+  action.addNodeAction(
+    'revealInFile',
+    async ({ node }) => {
+      const file = diagnostic.explorer.sources.find(
+        (source) => source.sourceType === 'file',
+      );
+      if (!file || node.isRoot) {
+        return;
+      }
+      await file.action.doAction('reveal', file.view.rootNode, [
+        'path',
+        node.fullpath,
+      ]);
+    },
+    'reveal the file of diagnostic in file source',
+  );
+}
@@ -0,0 +1,9 @@
+import { DiagnosticNode, DiagnosticSource } from './diagnosticSource';
+import { ColumnRegistrar } from '../../columnRegistrar';
+
+class DiagnosticColumnRegistrar extends ColumnRegistrar<
+  DiagnosticNode,
+  DiagnosticSource
+> {}
+
+export const diagnosticColumnRegistrar = new DiagnosticColumnRegistrar();
@@ -0,0 +1,213 @@
+import {
+  diagnosticManager as cocDiagnosticManager,
+  DiagnosticItem,
+  Location,
+  Range,
+  Uri,
+} from 'coc.nvim';
+import pathLib from 'path';
+import { diagnosticHighlights } from '../../../diagnostic/highlights';
+import { internalEvents } from '../../../events';
+import { internalHighlightGroups } from '../../../highlight/internalColors';
+import { hlGroupManager } from '../../../highlight/manager';
+import { DiagnosticSeverity } from '../../../types';
+import { debounceFn, isParentFolder, normalizePath } from '../../../util';
+import { ViewSource } from '../../../view/viewSource';
+import { BaseTreeNode, ExplorerSource } from '../../source';
+import { sourceManager } from '../../sourceManager';
+import { diagnosticArgOptions } from './argOptions';
+import { loadDiagnosticActions } from './diagnosticActions';
+import { diagnosticColumnRegistrar } from './diagnosticColumnRegistrar';
+import './load';
+
+export interface DiagnosticNode
+  extends BaseTreeNode<DiagnosticNode, 'root' | 'file' | 'child'> {
+  fullpath: string;
+  name: string;
+  /**
+   * The count of diagnostics in file node
+   */
+  count?: number;
+  severity?: DiagnosticSeverity;
+  lnum?: number;
+  col?: number;
+  /**
+   * The diagnostic source, e.g. `eslint`
+   */
+  diagnosticSource?: string;
+  code?: string | number;
+}
+
+const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
+
+export const diagnosticSourceHighlights = {
+  title: hlg('DiagnosticRoot', 'Constant'),
+  expandIcon: hlg('DiagnosticExpandIcon', 'Directory'),
+  filter: hlg('DiagnosticFilter', internalHighlightGroups.CommentColor),
+  filename: hlg('DiagnosticFilename', 'String'),
+  count: hlg('DiagnosticCount', internalHighlightGroups.CommentColor),
+  message: hlg('DiagnosticMessage', 'None'),
+  position: hlg('DiagnosticPosition', internalHighlightGroups.CommentColor),
+  diagnosticSource: hlg(
+    'DiagnosticSource',
+    internalHighlightGroups.CommentColor,
+  ),
+  fullpath: hlg('DiagnosticFullpath', internalHighlightGroups.CommentColor),
+  severity: {
+    error: diagnosticHighlights.diagnosticError,
+    warning: diagnosticHighlights.diagnosticWarning,
+    info: hlg('DiagnosticInfo', 'CocInfoSign'),
+    hint: hlg('DiagnosticHint', 'CocHintSign'),
+  },
+};
+
+const severityMap: Record<string, DiagnosticSeverity> = {
+  Error: 'error',
+  Warning: 'warning',
+  Information: 'info',
+  Hint: 'hint',
+};
+
+export class DiagnosticSource extends ExplorerSource<DiagnosticNode> {
+  view: ViewSource<DiagnosticNode> = new ViewSource<DiagnosticNode>(
+    this,
+    diagnosticColumnRegistrar,
+    {
+      type: 'root',
+      isRoot: true,
+      expandable: true,
+      uid: this.helper.getUid('0'),
+      name: '',
+      fullpath: '',
+    },
+  );
+  /**
+   * The severities to display
+   */
+  severities = new Set<DiagnosticSeverity>(
+    this.config.get<DiagnosticSeverity[]>('diagnostic.severities'),
+  );
+  /**
+   * The files have been expanded by default since the explorer opened
+   */
+  private initedFiles = new Set<string>();
+  private diagnosticsByFile = new Map<string, DiagnosticItem[]>();
+
+  async init() {
+    const reload = debounceFn(500, async () => {
+      if (!this.explorer.visible()) {
+        return;
+      }
+      await this.load(this.view.rootNode);
+    });
+    this.disposables.push(
+      reload,
+      internalEvents.on('CocDiagnosticChange', reload),
+    );
+
+    loadDiagnosticActions(this.action);
+  }
+
+  async open() {
+    await this.view.parseTemplate(
+      'root',
+      await this.explorer.args.value(
+        diagnosticArgOptions.diagnosticRootTemplate,
+      ),
+    );
+    await this.view.parseTemplate(
+      'file',
+      await this.explorer.args.value(
+        diagnosticArgOptions.diagnosticFileTemplate,
+      ),
+    );
+    await this.view.parseTemplate(
+      'child',
+      await this.explorer.args.value(
+        diagnosticArgOptions.diagnosticChildTemplate,
+      ),
+      await this.explorer.args.value(
+        diagnosticArgOptions.diagnosticChildLabelingTemplate,
+      ),
+    );
+
+    this.initedFiles.clear();
+    this.view.rootNode.fullpath = this.explorer.root;
+  }
+
+  private async groupDiagnostics() {
+    const groups = new Map<string, DiagnosticItem[]>();
+    // eslint-disable-next-line @typescript-eslint/await-thenable
+    for (const diagnostic of await cocDiagnosticManager.getDiagnosticList()) {
+      const severity = severityMap[diagnostic.severity] ?? 'error';
+      if (!this.severities.has(severity)) {
+        continue;
+      }
+      const fullpath = normalizePath(Uri.parse(diagnostic.location.uri).fsPath);
+      const list = groups.get(fullpath);
+      if (list) {
+        list.push(diagnostic);
+      } else {
+        groups.set(fullpath, [diagnostic]);
+      }
+    }
+    for (const list of groups.values()) {
+      list.sort((a, b) => a.lnum - b.lnum || a.col - b.col);
+    }
+    return new Map([...groups].sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  async loadChildren(parentNode: DiagnosticNode): Promise<DiagnosticNode[]> {
+    const root = this.view.rootNode.fullpath;
+    if (parentNode.type === 'root') {
+      this.diagnosticsByFile = await this.groupDiagnostics();
+      const fileNodes: DiagnosticNode[] = [];
+      for (const [fullpath, diagnostics] of this.diagnosticsByFile) {
+        const fileNode: DiagnosticNode = {
+          type: 'file',
+          uid: this.helper.getUid(fullpath),
+          expandable: true,
+          fullpath,
+          name: isParentFolder(root, fullpath)
+            ? pathLib.relative(root, fullpath)
+            : fullpath,
+          count: diagnostics.length,
+        };
+        if (!this.initedFiles.has(fullpath)) {
+          this.initedFiles.add(fullpath);
+          this.view.setExpanded(fileNode, true);
+        }
+        fileNodes.push(fileNode);
+      }
+      return fileNodes;
+    } else if (parentNode.type === 'file') {
+      const { fullpath } = parentNode;
+      return (this.diagnosticsByFile.get(fullpath) ?? []).map(
+        (diagnostic, index) => ({
+          type: 'child',
+          uid: this.helper.getUid(`${fullpath}:${index}`),
+          fullpath,
+          name: diagnostic.message.replace(/\s*\n\s*/g, ' '),
+          severity: severityMap[diagnostic.severity] ?? 'error',
+          lnum: diagnostic.lnum,
+          col: diagnostic.col,
+          diagnosticSource: diagnostic.source,
+          code: diagnostic.code,
+          // the line of location is 1-based like the bookmark source
+          location: Location.create(
+            fullpath,
+            Range.create(
+              diagnostic.lnum,
+              diagnostic.col - 1,
+              diagnostic.lnum,
+              diagnostic.col - 1,
+            ),
+          ),
+        }),
+      );
+    }
+    return [];
+  }
+}
+
+sourceManager.registerSource('diagnostic', DiagnosticSource);
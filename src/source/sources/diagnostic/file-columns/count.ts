@@ -0,0 +1,14 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('file', 'count', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(`(${node.count ?? 0})`, {
+          hl: diagnosticSourceHighlights.count,
+        });
+      },
+    };
+  },
+}));
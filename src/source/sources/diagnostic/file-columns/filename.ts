@@ -0,0 +1,12 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('file', 'filename', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(node.name, { hl: diagnosticSourceHighlights.filename });
+      },
+    };
+  },
+}));
@@ -0,0 +1,17 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('file', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: diagnosticSourceHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
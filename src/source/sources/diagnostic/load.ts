@@ -0,0 +1,14 @@
+import './root-columns/icon';
+import './root-columns/title';
+import './root-columns/filter';
+
+import './file-columns/icon';
+import './file-columns/filename';
+import './file-columns/count';
+
+import './child-columns/selection';
+import './child-columns/severity';
+import './child-columns/message';
+import './child-columns/position';
+import './child-columns/source';
+import './child-columns/fullpath';
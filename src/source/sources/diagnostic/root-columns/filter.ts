@@ -0,0 +1,21 @@
+import { diagnosticSeverityList } from '../../../../types';
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('root', 'filter', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row) {
+        if (source.severities.size === diagnosticSeverityList.length) {
+          return;
+        }
+        const severities = diagnosticSeverityList.filter((severity) =>
+          source.severities.has(severity),
+        );
+        row.add(`(${severities.join('|') || 'none'})`, {
+          hl: diagnosticSourceHighlights.filter,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,14 @@
+import { diagnosticColumnRegistrar } from '../diagnosticColumnRegistrar';
+import { diagnosticSourceHighlights } from '../diagnosticSource';
+
+diagnosticColumnRegistrar.registerColumn('root', 'title', () => ({
+  draw() {
+    return {
+      drawNode(row) {
+        row.add('[DIAGNOSTIC]', {
+          hl: diagnosticSourceHighlights.title,
+        });
+      },
+    };
+  },
+}));
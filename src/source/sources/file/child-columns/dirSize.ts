@@ -0,0 +1,38 @@
+import prettyBytes from 'pretty-bytes';
+import { DirSizeCache } from '../dirSize';
+import { fileColumnRegistrar } from '../fileColumnRegistrar';
+import { fileHighlights } from '../fileSource';
+
+fileColumnRegistrar.registerColumn(
+  'child',
+  'dirSize',
+  ({ source, subscriptions }) => {
+    const dirSizeCache = new DirSizeCache(source);
+
+    return {
+      init() {
+        subscriptions.push(dirSizeCache);
+      },
+      draw() {
+        return {
+          labelVisible: ({ node }) => node.directory && !node.archiveEntry,
+          drawNode(row, { node, isLabeling }) {
+            if (!node.directory || node.archiveEntry) {
+              return;
+            }
+            const dirSize = dirSizeCache.get(node.fullpath);
+            if (!dirSize) {
+              row.add('…', { hl: fileHighlights.size });
+            } else if (isLabeling) {
+              row.add(`${prettyBytes(dirSize.size)}, ${dirSize.count} files`, {
+                hl: fileHighlights.size,
+              });
+            } else {
+              row.add(prettyBytes(dirSize.size), { hl: fileHighlights.size });
+            }
+          },
+        };
+      },
+    };
+  },
+);
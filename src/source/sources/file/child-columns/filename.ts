@@ -41,8 +41,11 @@ fileColumnRegistrar.registerColumn(
       draw() {
         return {
           async drawNode(row, { node }) {
-            row.add(node.name, {
-              hl: getHighlight(node.fullpath, node.directory),
+            source.view.filter.drawName(row, node, {
+              hl:
+                source.dragState?.target === node
+                  ? fileHighlights.dropTarget
+                  : getHighlight(node.fullpath, node.directory),
               unicode: true,
             });
           },
@@ -0,0 +1,53 @@
+import { formatDistanceToNow } from 'date-fns';
+import { gitHighlights } from '../../../../git/highlights';
+import { gitManager } from '../../../../git/manager';
+import { logger } from '../../../../util';
+import { fileColumnRegistrar } from '../fileColumnRegistrar';
+
+fileColumnRegistrar.registerColumn(
+  'child',
+  'gitCommit',
+  ({ source, subscriptions }) => ({
+    init() {
+      subscriptions.push(gitManager.bindColumn(source));
+    },
+    async available() {
+      return await gitManager.cmd.available();
+    },
+    draw(nodes) {
+      const unloadedNodes = nodes.filter(
+        (node) =>
+          !node.archiveEntry && !gitManager.isLastCommitLoaded(node.fullpath),
+      );
+      if (unloadedNodes.length) {
+        gitManager
+          .loadLastCommits(unloadedNodes)
+          .then(async (loadedPaths) => {
+            if (loadedPaths.length) {
+              await source.view.renderPaths(loadedPaths);
+            }
+          })
+          .catch(logger.error);
+      }
+
+      return {
+        labelVisible: ({ node }) => !!gitManager.getLastCommit(node.fullpath),
+        drawNode(row, { node }) {
+          const commit = gitManager.getLastCommit(node.fullpath);
+          if (!commit) {
+            return;
+          }
+          row.add(commit.hash, { hl: gitHighlights.commitHash });
+          row.add(' ');
+          row.add(commit.author, { hl: gitHighlights.commitAuthor });
+          row.add(' ');
+          row.add(formatDistanceToNow(commit.date, { addSuffix: true }), {
+            hl: gitHighlights.commitDate,
+          });
+          row.add(' ');
+          row.add(commit.subject, { hl: gitHighlights.commitSubject });
+        },
+      };
+    },
+  }),
+);
@@ -0,0 +1,74 @@
+import { getRootStatusIcons } from '../../../../git/config';
+import { gitHighlights } from '../../../../git/highlights';
+import { gitManager } from '../../../../git/manager';
+import { fileColumnRegistrar } from '../fileColumnRegistrar';
+
+/**
+ * The git root status of the sibling roots in multi-root mode
+ */
+fileColumnRegistrar.registerColumn(
+  'child',
+  'gitRoot',
+  ({ source, subscriptions }) => {
+    const icons = getRootStatusIcons(source.config);
+
+    return {
+      init() {
+        subscriptions.push(gitManager.bindColumn(source));
+      },
+      async available() {
+        return await gitManager.cmd.available();
+      },
+      async draw(nodes) {
+        const gitRoots = new Map<string, string | undefined>();
+        for (const node of nodes) {
+          if (node.workspaceRoot) {
+            gitRoots.set(
+              node.fullpath,
+              await gitManager.getGitRoot(node.fullpath),
+            );
+          }
+        }
+        const getStatus = (fullpath: string) => {
+          const root = gitRoots.get(fullpath);
+          return root ? gitManager.getRootStatus(root) : undefined;
+        };
+
+        return {
+          labelVisible({ node }) {
+            return (
+              !!node.workspaceRoot && !!getStatus(node.fullpath)?.formats.length
+            );
+          },
+          drawNode(row, { node, isLabeling }) {
+            if (!node.workspaceRoot) {
+              return;
+            }
+            const status = getStatus(node.fullpath);
+            if (!status?.formats.length) {
+              return;
+            }
+            const hl = status.allStaged
+              ? gitHighlights.staged
+              : gitHighlights.unstaged;
+            if (isLabeling) {
+              row.add(
+                status.formats
+                  .map((f) => `${icons[f].name}(${icons[f].icon})`)
+                  .join(' & '),
+                { hl },
+              );
+            } else {
+              row.add(
+                `{${status.formats.map((f) => icons[f].icon).join('')}}`,
+                {
+                  hl,
+                },
+              );
+            }
+          },
+        };
+      },
+    };
+  },
+);
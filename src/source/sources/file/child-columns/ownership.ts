@@ -0,0 +1,22 @@
+import { loadOwnerNames } from '../../../../util';
+import { ColumnDrawHandle } from '../../../columnRegistrar';
+import { fileColumnRegistrar } from '../fileColumnRegistrar';
+import { fileHighlights, FileNode } from '../fileSource';
+
+fileColumnRegistrar.registerColumn('child', 'ownership', () => ({
+  async draw(): Promise<ColumnDrawHandle<FileNode>> {
+    const { users, groups } = await loadOwnerNames();
+
+    return {
+      labelVisible: ({ node }) => !!node.lstat,
+      drawNode(row, { node }) {
+        if (node.lstat) {
+          const { uid, gid } = node.lstat;
+          row.add(`${users.get(uid) ?? uid}:${groups.get(gid) ?? gid}`, {
+            hl: fileHighlights.ownership,
+          });
+        }
+      },
+    };
+  },
+}));
@@ -0,0 +1,29 @@
+import { formatPermission, loadOwnerNames } from '../../../../util';
+import { ColumnDrawHandle } from '../../../columnRegistrar';
+import { fileColumnRegistrar } from '../fileColumnRegistrar';
+import { fileHighlights, FileNode } from '../fileSource';
+
+fileColumnRegistrar.registerColumn('child', 'permission', () => ({
+  async draw(): Promise<ColumnDrawHandle<FileNode>> {
+    const { users, groups } = await loadOwnerNames();
+
+    return {
+      labelVisible: ({ node }) => !!node.lstat,
+      drawNode(row, { node, isLabeling }) {
+        if (!node.lstat) {
+          return;
+        }
+        const { mode, uid, gid } = node.lstat;
+        row.add(formatPermission(mode), { hl: fileHighlights.permission });
+        // the labeling displays the owner and group in the ownership column
+        if (isLabeling) {
+          return;
+        }
+        row.add(' ');
+        row.add(`${users.get(uid) ?? uid} ${groups.get(gid) ?? gid}`, {
+          hl: fileHighlights.ownership,
+        });
+      },
+    };
+  },
+}));
@@ -9,6 +9,10 @@ fileColumnRegistrar.registerColumn('child', 'size', () => ({
       drawNode(row, { node }) {
         if (node.lstat) {
           row.add(prettyBytes(node.lstat.size), { hl: fileHighlights.size });
+        } else if (node.archiveEntry && !node.directory) {
+          row.add(prettyBytes(node.archiveEntry.size), {
+            hl: fileHighlights.size,
+          });
         }
       },
     };
@@ -0,0 +1,163 @@
+import { Disposable } from 'coc.nvim';
+import pathLib from 'path';
+import { gitManager } from '../../../git/manager';
+import { GitFormat } from '../../../git/types';
+import { fsLstat, fsReaddir, isParentFolder, logger } from '../../../util';
+import { FileSource } from './fileSource';
+
+export interface DirSize {
+  size: number;
+  /**
+   * The count of files inside the directory recursively
+   */
+  count: number;
+}
+
+interface ComputeTask {
+  /**
+   * Resolve undefined if the task is cancelled
+   */
+  promise: Promise<DirSize | undefined>;
+  /**
+   * Checked between reading directories to stop the stale walk
+   */
+  cancelled: boolean;
+  rendering: boolean;
+}
+
+/**
+ * Compute the recursive size of directories asynchronously and cache them,
+ * the cache is invalidated when the directory or its parents is reloaded
+ *
+ * The sizes of subdirectories are cached bottom-up and shared by the walks,
+ * so the parent and its expanded children do not rescan the same subtree
+ */
+export class DirSizeCache implements Disposable {
+  private cache = new Map<string, DirSize>();
+  private computing = new Map<string, ComputeTask>();
+  private disposables: Disposable[] = [];
+
+  constructor(private file: FileSource) {
+    this.disposables.push(
+      file.events.on('loaded', (node) => {
+        this.invalidate(node.fullpath);
+      }),
+    );
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.computing.forEach((task) => {
+      task.cancelled = true;
+    });
+    this.computing.clear();
+    this.cache.clear();
+  }
+
+  invalidate(fullpath: string) {
+    const related = (path: string) =>
+      path === fullpath ||
+      isParentFolder(path, fullpath) ||
+      isParentFolder(fullpath, path);
+    for (const path of [...this.cache.keys()].filter(related)) {
+      this.cache.delete(path);
+    }
+    for (const [path, task] of [...this.computing].filter(([path]) =>
+      related(path),
+    )) {
+      task.cancelled = true;
+      this.computing.delete(path);
+    }
+  }
+
+  /**
+   * Get the cached size, or start to compute it and render the node when done
+   */
+  get(fullpath: string): DirSize | undefined {
+    const size = this.cache.get(fullpath);
+    if (size) {
+      return size;
+    }
+    const task = this.load(fullpath);
+    if (!task.rendering) {
+      task.rendering = true;
+      task.promise
+        .then(async (size) => {
+          if (size) {
+            await this.file.view.renderPaths([fullpath]);
+          }
+        })
+        .catch(logger.error);
+    }
+  }
+
+  /**
+   * Reuse the computing task of directory, otherwise start a new one
+   */
+  private load(directory: string): ComputeTask {
+    const computing = this.computing.get(directory);
+    if (computing) {
+      return computing;
+    }
+    const task = {
+      cancelled: false,
+      rendering: false,
+    } as ComputeTask;
+    task.promise = this.compute(directory, task).finally(() => {
+      if (this.computing.get(directory) === task) {
+        this.computing.delete(directory);
+      }
+    });
+    this.computing.set(directory, task);
+    return task;
+  }
+
+  private isIgnored(fullpath: string, filename: string, directory: boolean) {
+    if (!this.file.showHidden && this.file.isHidden(filename)) {
+      return true;
+    }
+    return (
+      gitManager.getMixedStatus(fullpath, directory)?.x === GitFormat.ignored
+    );
+  }
+
+  private async compute(
+    directory: string,
+    task: ComputeTask,
+  ): Promise<DirSize | undefined> {
+    const result: DirSize = { size: 0, count: 0 };
+    let filenames: string[] = [];
+    try {
+      filenames = await fsReaddir(directory);
+    } catch {
+      // the unreadable directory is counted as empty
+    }
+    for (const filename of filenames) {
+      if (task.cancelled) {
+        return;
+      }
+      const fullpath = pathLib.join(directory, filename);
+      const lstat = await fsLstat(fullpath).catch(() => undefined);
+      if (!lstat || this.isIgnored(fullpath, filename, lstat.isDirectory())) {
+        continue;
+      }
+      if (lstat.isDirectory()) {
+        const sub =
+          this.cache.get(fullpath) ?? (await this.load(fullpath).promise);
+        if (!sub) {
+          return;
+        }
+        result.size += sub.size;
+        result.count += sub.count;
+      } else {
+        result.size += lstat.size;
+        result.count += 1;
+      }
+    }
+    if (task.cancelled) {
+      return;
+    }
+    this.cache.set(directory, result);
+    return result;
+  }
+}
@@ -1,6 +1,7 @@
 import open from 'open';
 import { Notifier } from 'coc-helper';
 import { window, workspace } from 'coc.nvim';
+import fs from 'fs';
 import pathLib from 'path';
 import { ActionSource } from '../../../actions/actionSource';
 import { driveList } from '../../../lists/drives';
@@ -9,8 +10,13 @@ import { explorerWorkspaceFolderList } from '../../../lists/workspaceFolders';
 import {
   CopyOrCutFileType,
   copyOrCutFileTypeList,
+  FileSortOrder,
+  fileSortOrderList,
+  fileSortTypeList,
   PasteFileType,
   pasteFileTypeList,
+  RenameBulkType,
+  renameBulkTypeList,
   RevealStrategy,
   revealStrategyList,
   rootStrategyList,
@@ -20,34 +26,152 @@ import {
 import {
   bufnrByWinnrOrWinid,
   currentBufnr,
+  extractArchiveEntry,
+  applyChmodMode,
+  fsChmod,
+  fsChown,
   fsCopyFileRecursive,
+  fsLstat,
   fsMkdirp,
   fsRename,
   fsRimraf,
+  fsStat,
   fsTouch,
   fsTrash,
+  fsWalk,
   input,
   isParentFolder,
   isWindows,
   listDrive,
+  loadOwnerNames,
   logger,
   overwritePrompt,
   prompt,
   selectWindowsUI,
+  splitCount,
 } from '../../../util';
+import { FileSortType } from '../../../types/pkg-config';
+import {
+  createBookmarkItem,
+  getBookmarkStore,
+  sourceWindowCursor,
+} from '../bookmark/util/store';
+import { openDiffTab } from '../compare/compareActions';
+import { FileOperation, fileJournal } from './fileJournal';
 import { FileNode, FileSource } from './fileSource';
+import { openRenameBulkBuffer } from './renameBulkBuffer';
 
 export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
   const { nvim } = workspace;
   const file = action.owner;
 
+  /**
+   * The files inside an archive are read-only
+   */
+  const archiveReadonlyMessage = 'Files inside an archive are read-only';
+  const isArchiveReadonly = (nodes: FileNode[]) => {
+    if (!nodes.some((node) => node.archiveEntry)) {
+      return false;
+    }
+    window.showMessage(archiveReadonlyMessage, 'error');
+    return true;
+  };
+  const isPutTargetReadonly = (node: FileNode) => {
+    const target = file.getPutTargetNode(node);
+    if (target.directory && !target.archiveEntry) {
+      return false;
+    }
+    window.showMessage(archiveReadonlyMessage, 'error');
+    return true;
+  };
+
+  const copyNodesTo = async (
+    nodes: FileNode[],
+    targetDir: string,
+    operations: FileOperation[],
+  ) => {
+    const archiveEntries = new Map(
+      nodes.map((node) => [node.fullpath, node.archiveEntry]),
+    );
+    await overwritePrompt(
+      'paste',
+      nodes.map((node) => ({
+        source: node.fullpath,
+        target: pathLib.join(targetDir, pathLib.basename(node.fullpath)),
+        sourceDirectory: node.archiveEntry?.directory,
+      })),
+      async (source, target) => {
+        const archiveEntry = archiveEntries.get(source);
+        if (archiveEntry) {
+          // not recorded, redo can not copy from the archive again
+          await extractArchiveEntry(archiveEntry, target);
+          return;
+        }
+        await fsCopyFileRecursive(source, target);
+        operations.push({
+          type: 'copy',
+          source,
+          target,
+          directory: (await fsLstat(target)).isDirectory(),
+        });
+      },
+      (target, directory, source) => {
+        // the replaced target is trashed before copying, undo restores it,
+        // but not for the extraction which is not recorded,
+        // otherwise undo restores the target over the extracted files
+        if (!archiveEntries.get(source!)) {
+          operations.push({ type: 'trash', source: target, directory });
+        }
+      },
+    );
+  };
+  const moveNodesTo = async (
+    nodes: FileNode[],
+    targetDir: string,
+    operations: FileOperation[],
+  ) => {
+    await overwritePrompt(
+      'paste',
+      nodes.map((node) => ({
+        source: node.fullpath,
+        target: pathLib.join(targetDir, pathLib.basename(node.fullpath)),
+      })),
+      async (source, target) => {
+        await fsRename(source, target);
+        operations.push({
+          type: 'move',
+          source,
+          target,
+          directory: (await fsLstat(target)).isDirectory(),
+        });
+      },
+      (target, directory) => {
+        // the replaced target is trashed before moving, undo restores it
+        operations.push({ type: 'trash', source: target, directory });
+      },
+    );
+  };
+
   action.addNodeAction(
     'gotoParent',
-    async () => {
+    async ({ node }) => {
+      const nodeUid = file.view.currentNode()?.uid;
+      const workspaceRootNode = file.multiRoot
+        ? file.getWorkspaceRootNode(node)
+        : undefined;
+      if (workspaceRootNode) {
+        await file.cdWorkspaceRoot(
+          workspaceRootNode,
+          pathLib.dirname(workspaceRootNode.fullpath),
+        );
+        if (nodeUid) {
+          await file.locator.gotoNodeUid(nodeUid);
+        }
+        return;
+      }
       if (file.root === '') {
         return;
       }
-      const nodeUid = file.view.currentNode()?.uid;
       if (/^[A-Za-z]:[\\/]$/.test(file.root)) {
         file.root = '';
       } else {
@@ -183,7 +307,7 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
         return;
       }
 
-      if (!isParentFolder(file.root, targetPath)) {
+      if (!file.isInsideRoot(targetPath)) {
         await action.doAction('resolveRoot', node, [targetPath]);
       }
 
@@ -231,6 +355,12 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
     'cd',
     async ({ node, args }) => {
       const cdTo = async (fullpath: string) => {
+        const workspaceRootNode =
+          file.multiRoot && node ? file.getWorkspaceRootNode(node) : undefined;
+        if (workspaceRootNode) {
+          await file.cdWorkspaceRoot(workspaceRootNode, fullpath);
+          return;
+        }
         await file.cd(fullpath);
         file.root = fullpath;
         await file.view.expand(file.view.rootNode);
@@ -239,7 +369,7 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
       if (path !== undefined) {
         await cdTo(path);
       } else {
-        if (node.directory) {
+        if (node.directory && !node.archiveEntry) {
           await cdTo(node.fullpath);
         }
       }
@@ -281,9 +411,10 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
     'drop',
     async ({ node }) => {
       if (!node.directory) {
+        const fullpath = await file.resolveFullpath(node);
         const quitNotifier = await file.explorer.tryQuitOnOpenNotifier();
         nvim.pauseNotification();
-        nvim.command(`drop ${node.fullpath}`, true);
+        nvim.command(`drop ${fullpath}`, true);
         quitNotifier.notify();
         await nvim.resumeNotification();
       }
@@ -387,6 +518,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
   action.addNodesAction(
     'cutFile',
     async ({ nodes, args }) => {
+      if (isArchiveReadonly(nodes)) {
+        return;
+      }
       const type = (args[0] ?? 'toggle') as CopyOrCutFileType;
       if (type === 'replace') {
         file.view.requestRenderNodes([...file.copiedNodes, ...file.cutNodes]);
@@ -422,42 +556,120 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
         window.showMessage('Copied files or cut files is empty', 'error');
         return;
       }
+      if (isPutTargetReadonly(node)) {
+        return;
+      }
       const targetDir = file.getPutTargetDir(node);
+      const operations: FileOperation[] = [];
       if (file.copiedNodes.size > 0) {
         const nodes = [...file.copiedNodes];
-        await overwritePrompt(
-          'paste',
-          nodes.map((node) => ({
-            source: node.fullpath,
-            target: pathLib.join(targetDir, pathLib.basename(node.fullpath)),
-          })),
-          fsCopyFileRecursive,
-        );
+        await copyNodesTo(nodes, targetDir, operations);
         file.view.requestRenderNodes(nodes);
         if (type === 'clear') {
           file.copiedNodes.clear();
         }
       }
       if (file.cutNodes.size > 0) {
-        const nodes = [...file.cutNodes];
-        await overwritePrompt(
-          'paste',
-          nodes.map((node) => ({
-            source: node.fullpath,
-            target: pathLib.join(targetDir, pathLib.basename(node.fullpath)),
-          })),
-          fsRename,
-        );
+        await moveNodesTo([...file.cutNodes], targetDir, operations);
         file.cutNodes.clear();
       }
+      fileJournal.record('paste files', operations);
       await file.load(file.view.rootNode);
     },
     'paste files to here',
     pasteFileOptions,
   );
+  const getMouseNode = async () => {
+    const mousepos = (await nvim.call('getmousepos')) as {
+      winid: number;
+      line: number;
+    };
+    if (mousepos.winid !== (await file.explorer.winid)) {
+      return;
+    }
+    return file.view.getNodeByLine(
+      mousepos.line - 1 - file.view.startLineIndex,
+    );
+  };
+  const isDropTarget = (nodes: FileNode[], target: FileNode) =>
+    target.directory &&
+    !target.archiveEntry &&
+    nodes.every(
+      (node) =>
+        node !== target &&
+        pathLib.dirname(node.fullpath) !== target.fullpath &&
+        !isParentFolder(node.fullpath, target.fullpath),
+    );
+  action.addNodesAction(
+    'mouseDrag',
+    async ({ nodes, args }) => {
+      if (!file.dragState) {
+        file.dragState = { nodes, copy: args[0] === 'copy' };
+      }
+      const state = file.dragState;
+      const mouseNode = await getMouseNode();
+      const target =
+        mouseNode && isDropTarget(state.nodes, mouseNode)
+          ? mouseNode
+          : undefined;
+      if (target === state.target) {
+        return;
+      }
+      const prevTarget = state.target;
+      state.target = target;
+      await file.view.renderNodes(
+        [prevTarget, target].filter((node): node is FileNode => !!node),
+      );
+    },
+    'drag files by mouse',
+    {
+      select: true,
+      args: [
+        {
+          name: 'type',
+          description: 'move | copy, default: move',
+        },
+      ],
+      menus: {
+        copy: 'copy files when dropped',
+      },
+    },
+  );
+  action.addNodeAction(
+    'mouseDrop',
+    async () => {
+      const state = file.dragState;
+      file.dragState = undefined;
+      if (!state?.target) {
+        return;
+      }
+      const { nodes, target } = state;
+      await file.view.renderNodes([target]);
+      // the target is from the last drag event, drop only if the mouse is still on it
+      if ((await getMouseNode()) !== target) {
+        return;
+      }
+      if (!state.copy && isArchiveReadonly(nodes)) {
+        return;
+      }
+      const operations: FileOperation[] = [];
+      if (state.copy) {
+        await copyNodesTo(nodes, target.fullpath, operations);
+        fileJournal.record('copy files', operations);
+      } else {
+        await moveNodesTo(nodes, target.fullpath, operations);
+        fileJournal.record('move files', operations);
+      }
+      await file.load(file.view.rootNode);
+    },
+    'drop the dragged files to the directory under mouse',
+  );
   action.addNodesAction(
     'delete',
     async ({ nodes }) => {
+      if (isArchiveReadonly(nodes)) {
+        return;
+      }
       if (
         nodes.some((node) =>
           file.bufManager.modified(node.fullpath, {
@@ -478,6 +690,14 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
       }
 
       await fsTrash(nodes.map((node) => node.fullpath));
+      fileJournal.record(
+        'move files to trash',
+        nodes.map((node) => ({
+          type: 'trash',
+          source: node.fullpath,
+          directory: node.directory,
+        })),
+      );
 
       for (const node of nodes) {
         await file.bufManager.remove(node.fullpath, {
@@ -493,6 +713,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
   action.addNodesAction(
     'deleteForever',
     async ({ nodes }) => {
+      if (isArchiveReadonly(nodes)) {
+        return;
+      }
       if (
         nodes.some((node) =>
           file.bufManager.modified(node.fullpath, {
@@ -521,6 +744,14 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
           directory: node.directory,
         });
       }
+      fileJournal.record(
+        'delete files permanently',
+        nodes.map((node) => ({
+          type: 'deleteForever',
+          source: node.fullpath,
+          directory: node.directory,
+        })),
+      );
     },
     'delete file or directory permanently',
     { reload: true },
@@ -543,6 +774,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
         return;
       }
 
+      if (isPutTargetReadonly(node)) {
+        return;
+      }
       if (['/', '\\'].includes(filename[filename.length - 1])) {
         await action.doAction('addDirectory', node, [filename]);
         return;
@@ -559,6 +793,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
         ],
         async (_source, target) => {
           await fsTouch(target);
+          fileJournal.record('add file', [
+            { type: 'create', target, directory: false },
+          ]);
         },
       );
       await file.view.sync(async (r) => {
@@ -585,6 +822,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
       if (!directoryName) {
         return;
       }
+      if (isPutTargetReadonly(node)) {
+        return;
+      }
       const putTargetNode = file.getPutTargetNode(node);
       const targetPath = pathLib.join(putTargetNode.fullpath, directoryName);
       await overwritePrompt(
@@ -597,6 +837,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
         ],
         async (_source, target) => {
           await fsMkdirp(target);
+          fileJournal.record('add directory', [
+            { type: 'create', target, directory: true },
+          ]);
         },
       );
       await file.view.sync(async (r) => {
@@ -617,6 +860,9 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
   action.addNodeAction(
     'rename',
     async ({ node }) => {
+      if (isArchiveReadonly([node])) {
+        return;
+      }
       if (
         file.bufManager.modified(node.fullpath, {
           directory: node.directory,
@@ -647,7 +893,12 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
             target: targetPath,
           },
         ],
-        fsRename,
+        async (source, target) => {
+          await fsRename(source, target);
+          fileJournal.record('rename', [
+            { type: 'move', source, target, directory: node.directory },
+          ]);
+        },
       );
 
       await file.bufManager.replace(node.fullpath, targetPath, {
@@ -659,6 +910,89 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
     'rename a file or directory',
     { reload: true },
   );
+  action.addNodesAction(
+    'renameBulk',
+    async ({ nodes, args }) => {
+      const type = (args[0] ?? 'selection') as RenameBulkType;
+      if (!renameBulkTypeList.includes(type)) {
+        window.showMessage(`Unknown rename bulk type: ${type}`, 'error');
+        return;
+      }
+      if (type === 'directory') {
+        if (isPutTargetReadonly(nodes[0])) {
+          return;
+        }
+        const dirNode = file.getPutTargetNode(nodes[0]);
+        const children = await file.loadChildren(dirNode);
+        if (!children.length) {
+          window.showMessage(`${dirNode.fullpath} is empty`, 'warning');
+          return;
+        }
+        await openRenameBulkBuffer(file, dirNode.fullpath, children);
+      } else {
+        if (isArchiveReadonly(nodes)) {
+          return;
+        }
+        // parent directory already carries its children
+        const topNodes = nodes.filter(
+          (node) =>
+            !nodes.some(
+              (other) =>
+                other !== node &&
+                other.directory &&
+                isParentFolder(other.fullpath, node.fullpath),
+            ),
+        );
+        await openRenameBulkBuffer(file, file.root, topNodes);
+      }
+    },
+    'rename files or directories in a buffer',
+    {
+      args: [
+        {
+          name: 'type',
+          description: `${renameBulkTypeList.join(' | ')}, default: selection`,
+        },
+      ],
+      menus: {
+        directory: 'rename all files in the directory',
+      },
+    },
+  );
+  action.addNodeAction(
+    'undo',
+    async () => {
+      try {
+        const entry = await fileJournal.undo(file.bufManager);
+        if (!entry) {
+          window.showMessage('Already at oldest file operation', 'warning');
+          return;
+        }
+        window.showMessage(`Undo: ${entry.description}`);
+      } catch (error) {
+        window.showMessage((error as Error).message, 'error');
+      }
+    },
+    'undo the latest file operation',
+    { reload: true },
+  );
+  action.addNodeAction(
+    'redo',
+    async () => {
+      try {
+        const entry = await fileJournal.redo(file.bufManager);
+        if (!entry) {
+          window.showMessage('Already at newest file operation', 'warning');
+          return;
+        }
+        window.showMessage(`Redo: ${entry.description}`);
+      } catch (error) {
+        window.showMessage((error as Error).message, 'error');
+      }
+    },
+    'redo the latest undone file operation',
+    { reload: true },
+  );
 
   action.addNodesAction(
     'systemExecute',
@@ -740,6 +1074,64 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
     'search by coc-list recursively',
   );
 
+  action.addNodeAction(
+    'sort',
+    async ({ args }) => {
+      let type = args[0] as
+        | FileSortType
+        | 'reverse'
+        | 'directoriesFirst'
+        | undefined;
+      if (!type) {
+        type = await prompt('Sort by:', fileSortTypeList, file.sort.type);
+        if (!type) {
+          return;
+        }
+      }
+      if (type === 'reverse') {
+        file.sort.order = file.sort.order === 'asc' ? 'desc' : 'asc';
+      } else if (type === 'directoriesFirst') {
+        file.sort.directoriesFirst = !file.sort.directoriesFirst;
+      } else if (fileSortTypeList.includes(type)) {
+        file.sort.type = type;
+        const order = args[1] as FileSortOrder | undefined;
+        if (order && fileSortOrderList.includes(order)) {
+          file.sort.order = order;
+        }
+      } else {
+        window.showMessage(`Unknown sort type: ${type}`, 'error');
+      }
+    },
+    'change the sort order of files',
+    {
+      reload: true,
+      args: [
+        {
+          name: 'sort type',
+          description: [
+            ...fileSortTypeList,
+            'reverse',
+            'directoriesFirst',
+          ].join(' | '),
+        },
+        {
+          name: 'sort order',
+          description: fileSortOrderList.join(' | '),
+        },
+      ],
+      menus: {
+        name: 'by name',
+        extension: 'by extension',
+        'size:desc': 'by size, largest first',
+        'mtime:desc': 'by modified time, newest first',
+        'ctime:desc': 'by changed time, newest first',
+        git: 'by git status, changed files first',
+        reverse: 'reverse the order',
+        directoriesFirst: 'toggle putting directories first',
+      },
+    },
+  );
+
   action.addNodeAction(
     'toggleOnlyGitChange',
     async () => {
@@ -758,4 +1150,296 @@ export function loadFileActions(action: ActionSource<FileSource, FileNode>) {
     'toggle visibility of git change node',
     { reload: true },
   );
+
+  /**
+   * Get the bookmark line of file node, it is the cursor line when the source
+   * window shows the same file
+   */
+  const bookmarkTarget = async (node: FileNode) => {
+    if (node.directory || node.archiveEntry) {
+      return;
+    }
+    if (!file.config.get<boolean>('bookmark.native')) {
+      window.showMessage(
+        'The bookmarks of coc-bookmark are read-only, enable explorer.bookmark.native to edit bookmarks',
+        'error',
+      );
+      return;
+    }
+    const cursor = await sourceWindowCursor(file.explorer);
+    return {
+      fullpath: node.fullpath,
+      lnum: cursor?.fullpath === node.fullpath ? cursor.lnum : undefined,
+    };
+  };
+  const getOrAddBookmark = async (fullpath: string, lnum: number) => {
+    const store = getBookmarkStore(file.context.storagePath);
+    const item = await store.get(fullpath, lnum);
+    if (item) {
+      return item;
+    }
+    const newItem = await createBookmarkItem(fullpath, lnum);
+    await store.add(fullpath, newItem);
+    return newItem;
+  };
+
+  action.addNodeAction(
+    'addBookmark',
+    async ({ node }) => {
+      const target = await bookmarkTarget(node);
+      if (!target) {
+        return;
+      }
+      await getOrAddBookmark(target.fullpath, target.lnum ?? 1);
+    },
+    'add a bookmark of file, at the cursor line when the file is opened in source window',
+  );
+  action.addNodeAction(
+    'removeBookmark',
+    async ({ node }) => {
+      const target = await bookmarkTarget(node);
+      if (!target) {
+        return;
+      }
+      await getBookmarkStore(file.context.storagePath).remove(
+        target.fullpath,
+        target.lnum,
+      );
+    },
+    'remove the bookmark at the cursor line of source window, or all bookmarks of file',
+  );
+  action.addNodeAction(
+    'annotateBookmark',
+    async ({ node }) => {
+      const target = await bookmarkTarget(node);
+      if (!target) {
+        return;
+      }
+      const item = await getOrAddBookmark(target.fullpath, target.lnum ?? 1);
+      const annotation = await input(
+        'Input the annotation:',
+        item.annotation ?? '',
+      );
+      if (!annotation) {
+        return;
+      }
+      await getBookmarkStore(file.context.storagePath).update(
+        target.fullpath,
+        item.lnum,
+        { annotation },
+      );
+    },
+    'annotate the bookmark of file, the bookmark will be added if it does not exist',
+  );
+  action.addNodeAction(
+    'renameBookmark',
+    async ({ node }) => {
+      const target = await bookmarkTarget(node);
+      if (!target) {
+        return;
+      }
+      const item = await getOrAddBookmark(target.fullpath, target.lnum ?? 1);
+      const label = await input('Input a new bookmark name:', item.label ?? '');
+      if (!label) {
+        return;
+      }
+      await getBookmarkStore(file.context.storagePath).update(
+        target.fullpath,
+        item.lnum,
+        { label },
+      );
+    },
+    'rename the bookmark of file, the bookmark will be added if it does not exist',
+  );
+
+  action.addNodesAction(
+    'compare',
+    async ({ nodes }) => {
+      if (nodes.length > 2) {
+        window.showMessage('Select exactly two nodes to compare', 'error');
+        return;
+      }
+      if (nodes.some((node) => node.archiveEntry)) {
+        window.showMessage(
+          'Files inside an archive can not be compared',
+          'error',
+        );
+        return;
+      }
+      let base: FileNode;
+      let target: FileNode;
+      if (nodes.length === 2) {
+        [base, target] = nodes;
+      } else if (file.compareMark) {
+        [base, target] = [file.compareMark, nodes[0]];
+        file.compareMark = undefined;
+      } else {
+        file.compareMark = nodes[0];
+        window.showMessage(
+          `Marked ${nodes[0].fullpath}, compare it with another node`,
+        );
+        return;
+      }
+      if (base.fullpath === target.fullpath) {
+        return;
+      }
+      if (base.directory !== target.directory) {
+        window.showMessage('Can not compare a file with a directory', 'error');
+        return;
+      }
+      if (!base.directory) {
+        await openDiffTab(base.fullpath, target.fullpath);
+        return;
+      }
+      await file.explorer.explorerManager.open([
+        '--sources=compare+',
+        '--position=tab',
+        '--compare-base',
+        base.fullpath,
+        '--compare-target',
+        target.fullpath,
+        target.fullpath,
+      ]);
+    },
+    'compare two selected files or directories, or mark a node to compare with the node under the cursor',
+    { select: true },
+  );
+
+  const permissionOptions = {
+    select: true,
+    reload: true,
+    args: [
+      {
+        name: 'recursive',
+        description: 'change the files inside directories recursively',
+      },
+    ],
+    menus: {
+      recursive: 'recursively',
+    },
+  };
+  /**
+   * Confirm and apply the change to the nodes, the files inside directories are included when recursive
+   */
+  const changePermission = async (
+    nodes: FileNode[],
+    recursive: boolean,
+    message: string,
+    change: (path: string, stat: fs.Stats) => Promise<void>,
+  ) => {
+    const list = nodes.map((node) => node.fullpath).join('\n');
+    if (
+      (await prompt(
+        `${message}${recursive ? ' recursively' : ''}?\n${list}`,
+      )) !== 'yes'
+    ) {
+      return;
+    }
+    try {
+      for (const node of nodes) {
+        if (recursive) {
+          await fsWalk(node.fullpath, change);
+        } else {
+          await change(node.fullpath, await fsStat(node.fullpath));
+        }
+      }
+    } catch (error) {
+      window.showMessage((error as Error).message, 'error');
+    }
+  };
+  action.addNodesAction(
+    'chmod',
+    async ({ nodes, args }) => {
+      if (isArchiveReadonly(nodes)) {
+        return;
+      }
+      const mode = await input('Input the mode, e.g. 755 or u+x,go-w:', '');
+      if (!mode) {
+        return;
+      }
+      if (applyChmodMode(mode, 0, false) === undefined) {
+        window.showMessage(`Invalid mode: ${mode}`, 'error');
+        return;
+      }
+      await changePermission(
+        nodes,
+        args[0] === 'recursive',
+        `Change the mode of these files or directories to ${mode}`,
+        async (path, stat) => {
+          await fsChmod(
+            path,
+            applyChmodMode(mode, stat.mode, stat.isDirectory())!,
+          );
+        },
+      );
+    },
+    'change the mode of files, the mode can be octal or symbolic',
+    permissionOptions,
+  );
+  action.addNodesAction(
+    'chown',
+    async ({ nodes, args }) => {
+      if (isArchiveReadonly(nodes)) {
+        return;
+      }
+      const owner = await input('Input the owner, e.g. user:group:', '');
+      if (!owner) {
+        return;
+      }
+      const { users, groups } = await loadOwnerNames();
+      const findId = (names: Map<number, string>, name: string) => {
+        if (/^\d+$/.test(name)) {
+          return Number(name);
+        }
+        return [...names].find(([, it]) => it === name)?.[0];
+      };
+      const [user, group] = splitCount(owner, ':', 2);
+      const uid = user ? findId(users, user) : -1;
+      const gid = group ? findId(groups, group) : -1;
+      if (uid === undefined || gid === undefined) {
+        window.showMessage(`Invalid owner: ${owner}`, 'error');
+        return;
+      }
+      await changePermission(
+        nodes,
+        args[0] === 'recursive',
+        `Change the owner of these files or directories to ${owner}`,
+        async (path, stat) => {
+          await fsChown(
+            path,
+            uid === -1 ? stat.uid : uid,
+            gid === -1 ? stat.gid : gid,
+          );
+        },
+      );
+    },
+    'change the owner and group of files, the owner can be user, user:group or :group',
+    permissionOptions,
+  );
+
+  action.addConditionRule('directory?', {
+    filter: (_s, n) => n.directory,
+    getHelpDescription: () => 'directory?',
+    description: 'node is a directory',
+  });
+  action.addConditionRule('hidden?', {
+    filter: (_s, n) => n.hidden,
+    getHelpDescription: () => 'hidden?',
+    description: 'file is hidden',
+  });
+  action.addConditionRule('readonly?', {
+    filter: (_s, n) => n.readonly,
+    getHelpDescription: () => 'readonly?',
+    description: 'file is readonly',
+  });
+  action.addConditionRule('mouseDragging?', {
+    filter: () => !!file.dragState,
+    getHelpDescription: () => 'mouseDragging?',
+    description: 'files are being dragged by mouse',
+  });
+  action.addConditionRule('symlink?', {
+    filter: (_s, n) => n.symbolicLink,
+    getHelpDescription: () => 'symlink?',
+    description: 'file is a symbolic link',
+  });
 }
@@ -0,0 +1,299 @@
+import pathLib from 'path';
+import { BufManager } from '../../../bufManager';
+import { config } from '../../../config';
+import {
+  fsCopyFileRecursive,
+  fsExists,
+  fsLstat,
+  fsMkdirp,
+  fsReaddir,
+  fsRename,
+  fsRimraf,
+  fsTouch,
+  fsTrash,
+} from '../../../util';
+import { findTrashedFile, TrashedFile } from '../../../util/trash';
+
+export type FileOperation =
+  | { type: 'move'; source: string; target: string; directory: boolean }
+  | { type: 'copy'; source: string; target: string; directory: boolean }
+  | { type: 'create'; target: string; directory: boolean }
+  | { type: 'trash'; source: string; directory: boolean }
+  | { type: 'deleteForever'; source: string; directory: boolean };
+
+export interface FileJournalEntry {
+  description: string;
+  operations: FileOperation[];
+}
+
+export class FileJournalError extends Error {
+  constructor(public entry: FileJournalEntry, message: string) {
+    super(`Cannot ${entry.description}: ${message}`);
+  }
+}
+
+type Direction = 'undo' | 'redo';
+
+/**
+ * Record of file operations, shared by all explorers
+ * because they operate on the same filesystem
+ */
+class FileJournal {
+  private undoStack: FileJournalEntry[] = [];
+  private redoStack: FileJournalEntry[] = [];
+
+  get maxHistory() {
+    return Math.max(0, config.get<number>('file.undoLevels') ?? 50);
+  }
+
+  record(description: string, operations: FileOperation[]) {
+    if (!operations.length) {
+      return;
+    }
+    this.undoStack.push({ description, operations });
+    this.redoStack = [];
+    const overflow = this.undoStack.length - this.maxHistory;
+    if (overflow > 0) {
+      this.undoStack.splice(0, overflow);
+    }
+  }
+
+  /**
+   * Revert the latest entry, return undefined when nothing to undo
+   */
+  async undo(bufManager: BufManager) {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry) {
+      return;
+    }
+    if (entry.operations.some((op) => op.type === 'deleteForever')) {
+      this.undoStack.pop();
+      throw new FileJournalError(
+        { ...entry, description: `undo "${entry.description}"` },
+        'files deleted permanently cannot be restored',
+      );
+    }
+    await this.apply(entry, 'undo', bufManager);
+    this.undoStack.pop();
+    this.redoStack.push(entry);
+    return entry;
+  }
+
+  /**
+   * Reapply the latest undone entry, return undefined when nothing to redo
+   */
+  async redo(bufManager: BufManager) {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry) {
+      return;
+    }
+    await this.apply(entry, 'redo', bufManager);
+    this.redoStack.pop();
+    this.undoStack.push(entry);
+    return entry;
+  }
+
+  private async apply(
+    entry: FileJournalEntry,
+    direction: Direction,
+    bufManager: BufManager,
+  ) {
+    const operations =
+      direction === 'undo' ? [...entry.operations].reverse() : entry.operations;
+    const errorEntry = {
+      ...entry,
+      description: `${direction} "${entry.description}"`,
+    };
+
+    // Validate every operation before touching the filesystem,
+    // so that an entry is either reverted entirely or not at all
+    const trashed = new Map<FileOperation, TrashedFile>();
+    // the paths removed or created by the previous operations of this entry,
+    // e.g. the replaced target is restored after the copied file is trashed
+    const existences = new Map<string, boolean>();
+    const exists = async (fullpath: string) =>
+      existences.get(fullpath) ?? (await fsExists(fullpath));
+    for (const op of operations) {
+      const error = await this.check(
+        op,
+        direction,
+        bufManager,
+        trashed,
+        exists,
+      );
+      if (error) {
+        throw new FileJournalError(errorEntry, error);
+      }
+      const { removed, created } = this.changedPaths(op, direction);
+      removed.forEach((fullpath) => existences.set(fullpath, false));
+      created.forEach((fullpath) => existences.set(fullpath, true));
+    }
+
+    for (const op of operations) {
+      await this.run(op, direction, bufManager, trashed.get(op));
+    }
+  }
+
+  private async check(
+    op: FileOperation,
+    direction: Direction,
+    bufManager: BufManager,
+    trashed: Map<FileOperation, TrashedFile>,
+    exists: (fullpath: string) => Promise<boolean>,
+  ): Promise<string | undefined> {
+    const modified = (fullpath: string) =>
+      bufManager.modified(fullpath, { directory: op.directory })
+        ? `buffer of ${fullpath} is modified`
+        : undefined;
+
+    switch (op.type) {
+      case 'move': {
+        const [from, to] =
+          direction === 'undo'
+            ? [op.target, op.source]
+            : [op.source, op.target];
+        if (!(await exists(from))) {
+          return `${from} no longer exists`;
+        }
+        if (await exists(to)) {
+          return `${to} already exists`;
+        }
+        return modified(from);
+      }
+      case 'copy':
+        if (direction === 'undo') {
+          if (!(await exists(op.target))) {
+            return `${op.target} no longer exists`;
+          }
+          return modified(op.target);
+        }
+        if (!(await exists(op.source))) {
+          return `${op.source} no longer exists`;
+        }
+        if (await exists(op.target)) {
+          return `${op.target} already exists`;
+        }
+        return;
+      case 'create':
+        if (direction === 'undo') {
+          if (!(await exists(op.target))) {
+            return `${op.target} no longer exists`;
+          }
+          const empty = op.directory
+            ? (await fsReaddir(op.target)).length === 0
+            : (await fsLstat(op.target)).size === 0;
+          if (!empty) {
+            return `${op.target} is no longer empty`;
+          }
+          return modified(op.target);
+        }
+        if (await exists(op.target)) {
+          return `${op.target} already exists`;
+        }
+        return;
+      case 'trash':
+        if (direction === 'undo') {
+          if (await exists(op.source)) {
+            return `${op.source} already exists`;
+          }
+          const trashedFile = await findTrashedFile(op.source);
+          if (!trashedFile || !(await exists(trashedFile.path))) {
+            return `${op.source} cannot be found in the trash`;
+          }
+          trashed.set(op, trashedFile);
+          return;
+        }
+        if (!(await exists(op.source))) {
+          return `${op.source} no longer exists`;
+        }
+        return modified(op.source);
+      case 'deleteForever':
+        return `${op.source} was deleted permanently`;
+    }
+  }
+
+  private changedPaths(
+    op: FileOperation,
+    direction: Direction,
+  ): { removed: string[]; created: string[] } {
+    switch (op.type) {
+      case 'move':
+        return direction === 'undo'
+          ? { removed: [op.target], created: [op.source] }
+          : { removed: [op.source], created: [op.target] };
+      case 'copy':
+      case 'create':
+        return direction === 'undo'
+          ? { removed: [op.target], created: [] }
+          : { removed: [], created: [op.target] };
+      case 'trash':
+        return direction === 'undo'
+          ? { removed: [], created: [op.source] }
+          : { removed: [op.source], created: [] };
+      case 'deleteForever':
+        return { removed: [op.source], created: [] };
+    }
+  }
+
+  private async run(
+    op: FileOperation,
+    direction: Direction,
+    bufManager: BufManager,
+    trashedFile: TrashedFile | undefined,
+  ) {
+    const bufOptions = {
+      skipModified: true,
+      bwipeout: true,
+      directory: op.directory,
+    };
+    const move = async (from: string, to: string) => {
+      await fsMkdirp(pathLib.dirname(to));
+      await fsRename(from, to);
+      await bufManager.replace(from, to, bufOptions);
+    };
+    const trash = async (fullpath: string) => {
+      await fsTrash(fullpath);
+      await bufManager.remove(fullpath, bufOptions);
+    };
+
+    switch (op.type) {
+      case 'move':
+        if (direction === 'undo') {
+          await move(op.target, op.source);
+        } else {
+          await move(op.source, op.target);
+        }
+        break;
+      case 'copy':
+        if (direction === 'undo') {
+          await trash(op.target);
+        } else {
+          await fsMkdirp(pathLib.dirname(op.target));
+          await fsCopyFileRecursive(op.source, op.target);
+        }
+        break;
+      case 'create':
+        if (direction === 'undo') {
+          await fsRimraf(op.target);
+          await bufManager.remove(op.target, bufOptions);
+        } else if (op.directory) {
+          await fsMkdirp(op.target);
+        } else {
+          await fsMkdirp(pathLib.dirname(op.target));
+          await fsTouch(op.target);
+        }
+        break;
+      case 'trash':
+        if (direction === 'undo') {
+          await fsMkdirp(pathLib.dirname(op.source));
+          await fsRename(trashedFile!.path, op.source);
+          await fsRimraf(trashedFile!.infoPath);
+        } else {
+          await trash(op.source);
+        }
+        break;
+    }
+  }
+}
+
+export const fileJournal = new FileJournal();
@@ -8,22 +8,29 @@ import { getRevealAuto, getRevealWhenOpen } from '../../../config';
 import { diagnosticHighlights } from '../../../diagnostic/highlights';
 import { onBufEnter } from '../../../events';
 import { gitManager } from '../../../git/manager';
+import { GitFormat } from '../../../git/types';
 import { internalHighlightGroups } from '../../../highlight/internalColors';
 import { hlGroupManager } from '../../../highlight/manager';
 import { fileList } from '../../../lists/files';
 import { startCocList } from '../../../lists/runner';
-import { RootStrategyStr } from '../../../types';
+import { FileSortOptions, RootStrategyStr } from '../../../types';
 import { Explorer } from '../../../types/pkg-config';
 import {
+  ArchiveEntry,
+  extractArchiveEntryToTemp,
   fsAccess,
   fsLstat,
   fsReaddir,
   fsStat,
+  getArchiveType,
   getExtensions,
   isWindows,
+  listArchiveChildren,
   listDrive,
+  isParentFolder,
   logger,
   normalizePath,
+  readArchiveEntries,
 } from '../../../util';
 import { RendererSource } from '../../../view/rendererSource';
 import { ViewSource } from '../../../view/viewSource';
@@ -32,6 +39,7 @@ import { sourceManager } from '../../sourceManager';
 import { fileArgOptions } from './argOptions';
 import { loadFileActions } from './fileActions';
 import { fileColumnRegistrar } from './fileColumnRegistrar';
+import { FileWatcher } from './fileWatcher';
 import './load';
 
 export interface FileNode extends BaseTreeNode<FileNode, 'root' | 'child'> {
@@ -45,6 +53,14 @@ export interface FileNode extends BaseTreeNode<FileNode, 'root' | 'child'> {
   hidden: boolean;
   symbolicLink: boolean;
   lstat?: fs.Stats;
+  /**
+   * The entry of the virtual node inside an archive
+   */
+  archiveEntry?: ArchiveEntry;
+  /**
+   * Whether the node is a workspace folder shown as a sibling root
+   */
+  workspaceRoot?: boolean;
 }
 
 const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
@@ -62,12 +78,16 @@ export const fileHighlights = {
   linkTarget: hlg('FileLinkTarget', internalHighlightGroups.CommentColor),
   indentLine: hlg('IndentLine', internalHighlightGroups.CommentColor),
   clip: hlg('FileClip', 'Statement'),
+  dropTarget: hlg('FileDropTarget', 'Visual'),
   size: hlg('FileSize', 'Constant'),
   readonly: hlg('FileReadonly', 'Operator'),
+  permission: hlg('FilePermission', 'Special'),
+  ownership: hlg('FileOwnership', internalHighlightGroups.CommentColor),
   modified: hlg('FileModified', 'Operator'),
   timeAccessed: hlg('TimeAccessed', 'Identifier'),
   timeModified: hlg('TimeModified', 'Identifier'),
   timeCreated: hlg('TimeCreated', 'Identifier'),
+  sort: hlg('FileSort', internalHighlightGroups.CommentColor),
   diagnosticError: hlg(
     'FileDiagnosticError',
     diagnosticHighlights.diagnosticError.group,
@@ -87,8 +107,17 @@ export class FileSource extends ExplorerSource<FileNode> {
   scheme = 'file';
   showHidden: boolean = this.config.get<boolean>('file.showHiddenFiles')!;
   showOnlyGitChange = false;
+  sort: FileSortOptions = (() => {
+    const sort = this.config.get('file.sort');
+    return {
+      type: sort.type ?? 'name',
+      order: sort.order ?? 'asc',
+      directoriesFirst: sort.directoriesFirst ?? true,
+    };
+  })();
   copiedNodes: Set<FileNode> = new Set();
   cutNodes: Set<FileNode> = new Set();
+  watcher = new FileWatcher(this);
   view: ViewSource<FileNode> = new ViewSource<FileNode>(
     this,
     fileColumnRegistrar,
@@ -110,6 +139,18 @@ export class FileSource extends ExplorerSource<FileNode> {
     },
   );
   rootStrategies: RootStrategyStr[] = [];
+  /**
+   * The files dragged by mouse, and the directory to drop them
+   */
+  dragState?: { nodes: FileNode[]; copy: boolean; target?: FileNode };
+  /**
+   * The node marked by the compare action, to compare with the next node
+   */
+  compareMark?: FileNode;
+  /**
+   * The sibling roots in multi-root mode, initialized from the workspace folders
+   */
+  workspaceRoots: string[] = [];
 
   get root() {
     return this.view.rootNode.fullpath;
@@ -121,6 +162,37 @@ export class FileSource extends ExplorerSource<FileNode> {
     this.view.rootNode.children = undefined;
   }
 
+  get multiRoot() {
+    return this.workspaceRoots.length > 1;
+  }
+
+  private syncWorkspaceRoots() {
+    this.workspaceRoots = this.config.get<boolean>('file.multiRoot')
+      ? workspace.folderPaths.map((path) => normalizePath(path))
+      : [];
+  }
+
+  /**
+   * Get the sibling root containing the node in multi-root mode
+   */
+  getWorkspaceRootNode(node: FileNode): FileNode | undefined {
+    let current: FileNode | undefined = node;
+    while (current && !current.workspaceRoot) {
+      current = current.parent;
+    }
+    return current;
+  }
+
+  /**
+   * Whether the path is inside the root, or inside any sibling root in multi-root mode
+   */
+  isInsideRoot(path: string) {
+    if (this.multiRoot) {
+      return this.workspaceRoots.some((root) => isParentFolder(root, path));
+    }
+    return isParentFolder(this.root, path);
+  }
+
   getHiddenRules() {
     return this.config.get<{
       extensions: string[];
@@ -185,13 +257,30 @@ export class FileSource extends ExplorerSource<FileNode> {
       );
     }
 
+    this.syncWorkspaceRoots();
     this.disposables.push(
+      workspace.onDidChangeWorkspaceFolders(async () => {
+        if (!this.config.get<boolean>('file.multiRoot')) {
+          return;
+        }
+        this.syncWorkspaceRoots();
+        if (this.explorer.visible()) {
+          await this.load(this.view.rootNode);
+        }
+      }),
       this.events.on('loaded', () => {
         this.copiedNodes.clear();
         this.cutNodes.clear();
       }),
     );
 
+    if (this.watcher.enabled) {
+      this.disposables.push(
+        this.watcher,
+        this.events.on('drawn', () => this.watcher.sync()),
+      );
+    }
+
     loadFileActions(this.action);
   }
 
@@ -241,6 +330,19 @@ export class FileSource extends ExplorerSource<FileNode> {
     }
   }
 
+  /**
+   * Change directory of a sibling root in multi-root mode
+   */
+  async cdWorkspaceRoot(workspaceRootNode: FileNode, fullpath: string) {
+    const index = this.workspaceRoots.indexOf(workspaceRootNode.fullpath);
+    if (index === -1) {
+      return;
+    }
+    await this.cd(fullpath);
+    this.workspaceRoots[index] = normalizePath(fullpath);
+    await this.load(this.view.rootNode);
+  }
+
   async openedNotifier(renderer: RendererSource<FileNode>, isFirst: boolean) {
     const args = this.explorer.args;
     const revealPath = await this.explorer.revealPath();
@@ -370,7 +472,11 @@ export class FileSource extends ExplorerSource<FileNode> {
     } = {},
   ): Promise<[FileNode | undefined, Notifier[]]> {
     path = normalizePath(path);
-    if (this.filterForReveal(path, startNode.fullpath)) {
+    const revealRoot =
+      startNode.isRoot && this.multiRoot
+        ? this.workspaceRoots.find((root) => isParentFolder(root, path))
+        : startNode.fullpath;
+    if (revealRoot === undefined || this.filterForReveal(path, revealRoot)) {
       return [undefined, []];
     }
     const notifiers: Notifier[] = [];
@@ -387,7 +493,8 @@ export class FileSource extends ExplorerSource<FileNode> {
         return startNode;
       } else if (
         startNode.directory &&
-        path.startsWith(startNode.fullpath + pathLib.sep)
+        ((startNode.isRoot && this.multiRoot) ||
+          path.startsWith(startNode.fullpath + pathLib.sep))
       ) {
         let foundNode: FileNode | undefined = undefined;
         const isRender = render && !this.view.isExpanded(startNode);
@@ -438,25 +545,226 @@ export class FileSource extends ExplorerSource<FileNode> {
     return [foundNode, notifiers];
   }
 
+  private static nameCollator = new Intl.Collator(undefined, {
+    numeric: true,
+    sensitivity: 'base',
+  });
+
+  private gitSortRank(node: FileNode) {
+    const status = gitManager.getMixedStatus(node.fullpath, node.directory);
+    if (!status) {
+      return 3;
+    } else if (status.x === GitFormat.ignored) {
+      return 4;
+    } else if (
+      status.x === GitFormat.unmerged ||
+      status.y === GitFormat.unmerged
+    ) {
+      return 0;
+    } else if (status.y === GitFormat.untracked) {
+      return 2;
+    } else if (
+      status.x !== GitFormat.unmodified ||
+      status.y !== GitFormat.unmodified
+    ) {
+      return 1;
+    }
+    return 3;
+  }
+
+  compareFiles(a: FileNode, b: FileNode): number {
+    const compareName = () => FileSource.nameCollator.compare(a.name, b.name);
+    switch (this.sort.type) {
+      case 'extension':
+        return (
+          FileSource.nameCollator.compare(
+            pathLib.extname(a.name),
+            pathLib.extname(b.name),
+          ) || compareName()
+        );
+      case 'size':
+        return (
+          (a.lstat?.size ?? a.archiveEntry?.size ?? 0) -
+            (b.lstat?.size ?? b.archiveEntry?.size ?? 0) || compareName()
+        );
+      case 'mtime':
+        return (
+          (a.lstat?.mtimeMs ?? 0) - (b.lstat?.mtimeMs ?? 0) || compareName()
+        );
+      case 'ctime':
+        return (
+          (a.lstat?.ctimeMs ?? 0) - (b.lstat?.ctimeMs ?? 0) || compareName()
+        );
+      case 'git':
+        return this.gitSortRank(a) - this.gitSortRank(b) || compareName();
+      default:
+        return compareName();
+    }
+  }
+
   sortFiles(files: FileNode[]) {
+    const { order, directoriesFirst } = this.sort;
     return files.sort((a, b) => {
-      if (a.directory && !b.directory) {
-        return -1;
-      } else if (b.directory && !a.directory) {
-        return 1;
-      } else {
-        return a.name.localeCompare(b.name);
+      if (directoriesFirst) {
+        if (a.directory && !b.directory) {
+          return -1;
+        } else if (b.directory && !a.directory) {
+          return 1;
+        }
       }
+      const result = this.compareFiles(a, b);
+      return order === 'desc' ? -result : result;
     });
   }
 
+  async resolveFullpath(node: FileNode): Promise<string> {
+    if (node.archiveEntry) {
+      return await extractArchiveEntryToTemp(node.archiveEntry);
+    }
+    return node.fullpath;
+  }
+
+  private async loadArchiveChildren(parentNode: FileNode): Promise<FileNode[]> {
+    const archivePath =
+      parentNode.archiveEntry?.archivePath ?? parentNode.fullpath;
+    let entries: ArchiveEntry[];
+    try {
+      entries = await readArchiveEntries(archivePath);
+    } catch (error) {
+      window.showMessage(
+        `Failed to read archive: ${(error as Error).message}`,
+        'error',
+      );
+      return [];
+    }
+    const files = listArchiveChildren(
+      entries,
+      parentNode.archiveEntry?.path ?? '',
+    ).map((entry) => {
+      const name = pathLib.posix.basename(entry.path);
+      const hidden = this.isHidden(name);
+      if (!this.showHidden && hidden) {
+        return;
+      }
+      const fullpath = pathLib.join(archivePath, ...entry.path.split('/'));
+      const child: FileNode = {
+        type: 'child',
+        uid: this.helper.getUid(fullpath),
+        expandable: entry.directory,
+        name,
+        fullpath,
+        directory: entry.directory,
+        readonly: true,
+        executable: false,
+        readable: true,
+        writable: false,
+        hidden,
+        symbolicLink: false,
+        lstat: undefined,
+        archiveEntry: entry,
+      };
+      return child;
+    });
+    return this.sortFiles(files.filter((r): r is FileNode => !!r));
+  }
+
+  private async loadFileNode(
+    fullpath: string,
+    filename: string,
+    hidden: boolean,
+  ): Promise<FileNode> {
+    const browseArchive = this.config.get<boolean>('file.archive.enable');
+    const stat = await fsStat(fullpath).catch(() => {});
+    const lstat = await fsLstat(fullpath).catch(() => {});
+    const executable = await fsAccess(fullpath, fs.constants.X_OK);
+    const writable = await fsAccess(fullpath, fs.constants.W_OK);
+    const readable = await fsAccess(fullpath, fs.constants.R_OK);
+    const directory =
+      isWindows && /^[A-Za-z]:[\\/]$/.test(fullpath)
+        ? true
+        : stat
+        ? stat.isDirectory()
+        : false;
+    const archive =
+      browseArchive &&
+      !!stat?.isFile() &&
+      getArchiveType(filename) !== undefined;
+    return {
+      type: 'child',
+      uid: this.helper.getUid(fullpath),
+      expandable: directory || archive,
+      name: filename,
+      fullpath,
+      directory,
+      readonly: !writable && readable,
+      executable,
+      readable,
+      writable,
+      hidden,
+      symbolicLink: lstat ? lstat.isSymbolicLink() : false,
+      lstat: lstat || undefined,
+    };
+  }
+
+  /**
+   * Whether the git status is drawn by the columns of child nodes
+   */
+  private gitColumnsUsed() {
+    for (const column of this.view.sourcePainters.getPainter('child').columns) {
+      if (column.label === 'git' || column.label === 'gitRoot') {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async loadWorkspaceRoots(): Promise<FileNode[]> {
+    if (
+      (this.sort.type === 'git' || this.gitColumnsUsed()) &&
+      this.config.get<boolean>('git.enable') &&
+      (await gitManager.cmd.available())
+    ) {
+      const gitRoots = await gitManager.getGitRoots(this.workspaceRoots);
+      await Promise.all(gitRoots.map((root) => gitManager.reload(root)));
+    }
+    const nodes = await Promise.all(
+      this.workspaceRoots.map(async (root) => {
+        try {
+          const node = await this.loadFileNode(
+            root,
+            pathLib.basename(root),
+            false,
+          );
+          node.workspaceRoot = true;
+          return node;
+        } catch (error) {
+          logger.error(error);
+        }
+      }),
+    );
+    return nodes.filter((r): r is FileNode => !!r);
+  }
+
   async loadChildren(parentNode: FileNode): Promise<FileNode[]> {
+    if (parentNode.isRoot && this.multiRoot) {
+      return await this.loadWorkspaceRoots();
+    }
+    if (parentNode.archiveEntry || !parentNode.directory) {
+      return await this.loadArchiveChildren(parentNode);
+    }
     let filenames: string[];
     if (isWindows && parentNode.fullpath === '') {
       filenames = await listDrive();
     } else {
       filenames = await fsReaddir(parentNode.fullpath);
     }
+    if (
+      this.sort.type === 'git' &&
+      this.config.get<boolean>('git.enable') &&
+      (await gitManager.cmd.available())
+    ) {
+      await gitManager.reload(parentNode.fullpath);
+    }
     const files = await Promise.all(
       filenames.map(async (filename) => {
         try {
@@ -474,33 +782,7 @@ export class FileSource extends ExplorerSource<FileNode> {
           const fullpath = normalizePath(
             pathLib.join(parentNode.fullpath, filename),
           );
-          const stat = await fsStat(fullpath).catch(() => {});
-          const lstat = await fsLstat(fullpath).catch(() => {});
-          const executable = await fsAccess(fullpath, fs.constants.X_OK);
-          const writable = await fsAccess(fullpath, fs.constants.W_OK);
-          const readable = await fsAccess(fullpath, fs.constants.R_OK);
-          const directory =
-            isWindows && /^[A-Za-z]:[\\/]$/.test(fullpath)
-              ? true
-              : stat
-              ? stat.isDirectory()
-              : false;
-          const child: FileNode = {
-            type: 'child',
-            uid: this.helper.getUid(fullpath),
-            expandable: directory,
-            name: filename,
-            fullpath,
-            directory,
-            readonly: !writable && readable,
-            executable,
-            readable,
-            writable,
-            hidden,
-            symbolicLink: lstat ? lstat.isSymbolicLink() : false,
-            lstat: lstat || undefined,
-          };
-          return child;
+          return await this.loadFileNode(fullpath, filename, hidden);
         } catch (error) {
           logger.error(error);
         }
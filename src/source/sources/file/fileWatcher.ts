@@ -0,0 +1,157 @@
+import { Disposable } from 'coc.nvim';
+import fs from 'fs';
+import minimatch from 'minimatch';
+import { debounceFn, isParentFolder, logger } from '../../../util';
+import { FileNode, FileSource } from './fileSource';
+
+/**
+ * Watch the expanded directories and reload the changed subtrees
+ */
+export class FileWatcher implements Disposable {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private changedDirs = new Set<string>();
+  private limitWarned = false;
+  private reloadChangedDebounce: ReturnType<typeof debounceFn>;
+
+  constructor(private file: FileSource) {
+    this.reloadChangedDebounce = debounceFn(
+      this.file.config.get<number>('file.watcher.debounce') ?? 300,
+      () => this.reloadChanged(),
+    );
+  }
+
+  get enabled() {
+    return this.file.config.get<boolean>('file.watcher.enable') ?? true;
+  }
+
+  dispose() {
+    this.reloadChangedDebounce.dispose();
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  /**
+   * Watch the expanded directories of the view and close the others
+   */
+  sync() {
+    if (!this.enabled) {
+      return;
+    }
+    const exclude =
+      this.file.config.get<string[]>('file.watcher.exclude') ?? [];
+    const maxWatchers =
+      this.file.config.get<number>('file.watcher.maxWatchers') ?? 200;
+
+    const { view } = this.file;
+    const excludedDirs = new Set<string>();
+    const dirs = new Set<string>();
+    for (const node of [view.rootNode, ...view.flattenedNodes]) {
+      if (!node.directory || node.archiveEntry || !view.isExpanded(node)) {
+        continue;
+      }
+      if (
+        (node.parent && excludedDirs.has(node.parent.fullpath)) ||
+        exclude.some((pattern) =>
+          minimatch(node.fullpath, pattern, { dot: true }),
+        )
+      ) {
+        excludedDirs.add(node.fullpath);
+        continue;
+      }
+      dirs.add(node.fullpath);
+    }
+
+    for (const [dir, watcher] of this.watchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        this.watchers.delete(dir);
+      }
+    }
+    if (this.watchers.size < maxWatchers) {
+      this.limitWarned = false;
+    }
+    for (const dir of dirs) {
+      if (this.watchers.has(dir)) {
+        continue;
+      }
+      if (this.watchers.size >= maxWatchers) {
+        if (!this.limitWarned) {
+          this.limitWarned = true;
+          logger.warn(
+            `explorer.file.watcher.maxWatchers(${maxWatchers}) reached, stop watching more directories`,
+          );
+        }
+        break;
+      }
+      this.watch(dir);
+    }
+  }
+
+  private watch(dir: string) {
+    try {
+      const watcher = fs.watch(dir, { persistent: false }, (event) => {
+        if (event === 'rename') {
+          this.changedDirs.add(dir);
+          this.reloadChangedDebounce();
+        }
+      });
+      watcher.on('error', () => {
+        watcher.close();
+        this.watchers.delete(dir);
+      });
+      this.watchers.set(dir, watcher);
+    } catch (error) {
+      logger.error(error);
+    }
+  }
+
+  private async reloadChanged() {
+    const changedDirs = [...this.changedDirs];
+    this.changedDirs.clear();
+
+    const { view } = this.file;
+    const dirs = changedDirs.filter(
+      (dir) => !changedDirs.some((parent) => isParentFolder(parent, dir)),
+    );
+    for (const dir of dirs) {
+      const node = [view.rootNode, ...view.flattenedNodes].find(
+        (node) => node.fullpath === dir,
+      );
+      if (!node || !view.isExpanded(node)) {
+        continue;
+      }
+      try {
+        await this.reloadNode(node);
+      } catch (error) {
+        // e.g. the directory is removed, keep the debounce stream alive
+        logger.error(error);
+      }
+    }
+  }
+
+  private async reloadNode(node: FileNode) {
+    const { file } = this;
+    node.children = await file.loadInitedChildren(node, {
+      recursiveExpanded: true,
+    });
+    await file.view.load(node);
+
+    // keep the marks on the nodes which are still there
+    const nodesByUid = new Map(
+      file.view.flattenNode(node).map((node) => [node.uid, node]),
+    );
+    for (const marks of [file.selectedNodes, file.copiedNodes, file.cutNodes]) {
+      for (const mark of [...marks]) {
+        const newNode = nodesByUid.get(mark.uid);
+        if (newNode && newNode !== mark) {
+          marks.delete(mark);
+          marks.add(newNode);
+        }
+      }
+    }
+
+    await file.view.render({ node });
+  }
+}
@@ -7,6 +7,8 @@ import './root-columns/root';
 import './root-columns/fullpath';
 
 import './child-columns/git';
+import './child-columns/gitRoot';
+import './child-columns/gitCommit';
 import './child-columns/selection';
 import './child-columns/icon';
 import './child-columns/filename';
@@ -16,7 +18,10 @@ import './child-columns/fullpath';
 import './child-columns/indent';
 import './child-columns/clip';
 import './child-columns/size';
+import './child-columns/dirSize';
 import './child-columns/readonly';
+import './child-columns/permission';
+import './child-columns/ownership';
 import './child-columns/modified';
 import './child-columns/timeModified';
 import './child-columns/timeCreated';
@@ -0,0 +1,95 @@
+import {
+  parseRenameBulkLines,
+  planRenameBulk,
+  renameBulkLines,
+} from './renameBulk';
+
+const cwd = '/root';
+const items = [
+  { fullpath: '/root/a', directory: false },
+  { fullpath: '/root/b', directory: false },
+  { fullpath: '/root/dir', directory: true },
+];
+
+function plan(lines: string[], existing: string[] = []) {
+  const targets = parseRenameBulkLines(cwd, items, lines);
+  return planRenameBulk(cwd, items, targets, async (fullpath) =>
+    existing.includes(fullpath),
+  );
+}
+
+test('renameBulkLines', () => {
+  expect(renameBulkLines(cwd, items).filter((l) => !l.startsWith('#'))).toEqual(
+    ['1\ta', '2\tb', '3\tdir/'],
+  );
+});
+
+test('parseRenameBulkLines', () => {
+  const targets = parseRenameBulkLines(cwd, items, [
+    '# comment',
+    '1\tsub/a',
+    '',
+    '3\tdir/',
+  ]);
+  expect([...targets.values()]).toEqual(['/root/sub/a', '/root/dir']);
+  expect(targets.has(items[1])).toEqual(false);
+
+  expect(() => parseRenameBulkLines(cwd, items, ['a'])).toThrow('line 1');
+  expect(() => parseRenameBulkLines(cwd, items, ['4\tc'])).toThrow(
+    'unknown id 4',
+  );
+  expect(() => parseRenameBulkLines(cwd, items, ['1\tc', '1\td'])).toThrow(
+    'duplicate id 1',
+  );
+});
+
+test('planRenameBulk renames, moves and trashes', async () => {
+  const { steps } = await plan(['1\tsub/a', '3\tdir']);
+  expect(steps).toEqual([
+    { type: 'trash', source: '/root/b', directory: false },
+    {
+      type: 'move',
+      source: '/root/a',
+      target: '/root/sub/a',
+      directory: false,
+    },
+  ]);
+});
+
+test('planRenameBulk orders chained renames', async () => {
+  const { steps } = await plan(['1\tb', '2\tc', '3\tdir']);
+  expect(steps.map((step) => step.source)).toEqual(['/root/b', '/root/a']);
+});
+
+test('planRenameBulk breaks cycles', async () => {
+  const { steps, summary } = await plan(['1\tb', '2\ta', '3\tdir']);
+  expect(steps).toEqual([
+    {
+      type: 'move',
+      source: '/root/a',
+      target: '/root/a.renameBulk~0',
+      directory: false,
+    },
+    { type: 'move', source: '/root/b', target: '/root/a', directory: false },
+    {
+      type: 'move',
+      source: '/root/a.renameBulk~0',
+      target: '/root/b',
+      directory: false,
+    },
+  ]);
+  expect(summary.some((line) => line.startsWith('cycle'))).toEqual(true);
+});
+
+test('planRenameBulk detects conflicts', async () => {
+  await expect(plan(['1\tdir', '2\tb', '3\tdir'])).rejects.toThrow(
+    'both target dir',
+  );
+  await expect(plan(['1\tc', '2\tb', '3\tdir'], ['/root/c'])).rejects.toThrow(
+    'c already exists',
+  );
+  await expect(plan(['1\ta', '2\tb', '3\tdir/sub'])).rejects.toThrow(
+    'into itself',
+  );
+  await expect(plan(['1\tdir/a', '2\tb'])).rejects.toThrow('will be trashed');
+});
@@ -0,0 +1,201 @@
+import pathLib from 'path';
+import { isParentFolder } from '../../../util/path';
+
+export interface RenameBulkItem {
+  fullpath: string;
+  directory: boolean;
+}
+
+export type RenameBulkStep =
+  | { type: 'move'; source: string; target: string; directory: boolean }
+  | { type: 'trash'; source: string; directory: boolean };
+
+export interface RenameBulkPlan {
+  steps: RenameBulkStep[];
+  summary: string[];
+}
+
+const lineRegex = /^(\d+)\t(.+)$/;
+
+/**
+ * Lines of the rename buffer, each item is `<id>\t<relative path>`
+ */
+export function renameBulkLines(cwd: string, items: RenameBulkItem[]) {
+  return [
+    '# Edit the paths and write the buffer to apply the changes.',
+    '# Delete a line to move the file to trash, keep the id in front.',
+    ...items.map(
+      (item, idx) =>
+        `${idx + 1}\t${pathLib.relative(cwd, item.fullpath)}${
+          item.directory ? '/' : ''
+        }`,
+    ),
+  ];
+}
+
+/**
+ * Parse the rename buffer and return the target path of each remaining item
+ */
+export function parseRenameBulkLines(
+  cwd: string,
+  items: RenameBulkItem[],
+  lines: string[],
+) {
+  const targets = new Map<RenameBulkItem, string>();
+  const errors: string[] = [];
+  lines.forEach((line, idx) => {
+    if (!line.trim() || line.startsWith('#')) {
+      return;
+    }
+    const m = line.match(lineRegex);
+    if (!m) {
+      errors.push(`line ${idx + 1}: expected "<id><Tab><path>"`);
+      return;
+    }
+    const item = items[parseInt(m[1], 10) - 1];
+    if (!item) {
+      errors.push(`line ${idx + 1}: unknown id ${m[1]}`);
+      return;
+    }
+    if (targets.has(item)) {
+      errors.push(`line ${idx + 1}: duplicate id ${m[1]}`);
+      return;
+    }
+    const target = pathLib
+      .resolve(cwd, m[2].trim())
+      .replace(/(.)[\\/]+$/, '$1');
+    targets.set(item, target);
+  });
+  if (errors.length) {
+    throw new Error(errors.join('\n'));
+  }
+  return targets;
+}
+
+/**
+ * Turn the edited targets into an ordered list of steps,
+ * rename cycles are resolved by a temporary path
+ */
+export async function planRenameBulk(
+  cwd: string,
+  items: RenameBulkItem[],
+  targets: Map<RenameBulkItem, string>,
+  exists: (fullpath: string) => Promise<boolean>,
+): Promise<RenameBulkPlan> {
+  const relative = (fullpath: string) => pathLib.relative(cwd, fullpath);
+  const trashed = items.filter((item) => !targets.has(item));
+  const moves = items
+    .filter((item) => {
+      const target = targets.get(item);
+      return target !== undefined && target !== item.fullpath;
+    })
+    .map((item) => ({
+      source: item.fullpath,
+      target: targets.get(item)!,
+      directory: item.directory,
+    }));
+
+  const freed = new Set([
+    ...trashed.map((item) => item.fullpath),
+    ...moves.map((move) => move.source),
+  ]);
+  const occupied = new Map<string, string>();
+  for (const item of items) {
+    const target = targets.get(item);
+    if (target !== undefined && target === item.fullpath) {
+      occupied.set(target, item.fullpath);
+    }
+  }
+
+  const errors: string[] = [];
+  for (const move of moves) {
+    const other = occupied.get(move.target);
+    if (other !== undefined) {
+      errors.push(
+        `${relative(move.source)} and ${relative(other)} both target ${relative(
+          move.target,
+        )}`,
+      );
+      continue;
+    }
+    occupied.set(move.target, move.source);
+    if (move.directory && isParentFolder(move.source, move.target)) {
+      errors.push(`${relative(move.source)} cannot be moved into itself`);
+    } else if (
+      trashed.some(
+        (item) => item.directory && isParentFolder(item.fullpath, move.target),
+      )
+    ) {
+      errors.push(
+        `${relative(move.target)} is inside a directory that will be trashed`,
+      );
+    } else if (!freed.has(move.target) && (await exists(move.target))) {
+      errors.push(`${relative(move.target)} already exists`);
+    }
+  }
+  if (errors.length) {
+    throw new Error(errors.join('\n'));
+  }
+
+  const steps: RenameBulkStep[] = [];
+  const summary: string[] = [];
+  for (const item of trashed) {
+    steps.push({
+      type: 'trash',
+      source: item.fullpath,
+      directory: item.directory,
+    });
+    summary.push(`trash  ${relative(item.fullpath)}`);
+  }
+  for (const move of moves) {
+    summary.push(`rename ${relative(move.source)} -> ${relative(move.target)}`);
+  }
+
+  const pending = new Map(moves.map((move) => [move.source, move]));
+  const blocked = (move: { source: string; target: string }) =>
+    [...pending.keys()].some(
+      (source) =>
+        source !== move.source &&
+        (source === move.target || isParentFolder(source, move.target)),
+    );
+  const tempPaths = new Set<string>();
+  while (pending.size) {
+    const ready = [...pending.values()].find((move) => !blocked(move));
+    if (ready) {
+      steps.push({ type: 'move', ...ready });
+      pending.delete(ready.source);
+      continue;
+    }
+
+    // every pending target is still occupied by another pending source,
+    // move one of them aside to break the cycle
+    const [start] = pending.values();
+    summary.push(
+      `cycle  ${relative(start.source)} -> ${relative(
+        start.target,
+      )} via a temporary path`,
+    );
+
+    let temp: string;
+    let n = 0;
+    do {
+      temp = `${start.source}.renameBulk~${n++}`;
+    } while (
+      tempPaths.has(temp) ||
+      occupied.has(temp) ||
+      pending.has(temp) ||
+      (await exists(temp))
+    );
+    tempPaths.add(temp);
+    steps.push({
+      type: 'move',
+      source: start.source,
+      target: temp,
+      directory: start.directory,
+    });
+    pending.delete(start.source);
+    pending.set(temp, { ...start, source: temp });
+  }
+
+  return { steps, summary };
+}
@@ -0,0 +1,124 @@
+import { Disposable, disposeAll, window, workspace } from 'coc.nvim';
+import pathLib from 'path';
+import { internalEvents } from '../../../events';
+import {
+  fsExists,
+  fsMkdirp,
+  fsRename,
+  fsTrash,
+  logger,
+  prompt,
+} from '../../../util';
+import { FileOperation, fileJournal } from './fileJournal';
+import {
+  parseRenameBulkLines,
+  planRenameBulk,
+  RenameBulkItem,
+  renameBulkLines,
+  RenameBulkStep,
+} from './renameBulk';
+import { FileSource } from './fileSource';
+
+let renameBulkID = 0;
+
+/**
+ * Open a buffer listing the items, apply the edits when it is written
+ */
+export async function openRenameBulkBuffer(
+  file: FileSource,
+  cwd: string,
+  items: RenameBulkItem[],
+) {
+  const { nvim } = workspace;
+  renameBulkID += 1;
+  const bufnr = (await nvim.call('coc_explorer#buf#open_editable', [
+    `coc-explorer://renameBulk/${renameBulkID}`,
+    renameBulkLines(cwd, items),
+  ])) as number;
+
+  const disposables: Disposable[] = [];
+  const write = async () => {
+    const lines = await nvim.createBuffer(bufnr).lines;
+    let steps: RenameBulkStep[];
+    let summary: string[];
+    try {
+      const targets = parseRenameBulkLines(cwd, items, lines);
+      ({ steps, summary } = await planRenameBulk(
+        cwd,
+        items,
+        targets,
+        fsExists,
+      ));
+    } catch (error) {
+      window.showMessage((error as Error).message, 'error');
+      return;
+    }
+
+    if (steps.length) {
+      if (
+        steps.some((step) =>
+          file.bufManager.modified(step.source, {
+            directory: step.directory,
+          }),
+        ) &&
+        (await prompt('Buffer is being modified, discard it?')) !== 'yes'
+      ) {
+        return;
+      }
+      if (
+        (await prompt(`Apply these changes?\n${summary.join('\n')}`)) !== 'yes'
+      ) {
+        return;
+      }
+      await applyRenameBulkSteps(file, steps);
+    }
+
+    disposeAll(disposables);
+    await nvim.command(`silent! bwipeout! ${bufnr}`);
+    await file.load(file.view.rootNode);
+  };
+
+  disposables.push(
+    workspace.registerAutocmd({
+      event: 'BufWriteCmd',
+      pattern: `<buffer=${bufnr}>`,
+      request: true,
+      callback: logger.asyncCatch(write),
+    }),
+    internalEvents.on('BufWipeout', (wipeoutBufnr: number) => {
+      if (wipeoutBufnr === bufnr) {
+        disposeAll(disposables);
+      }
+    }),
+  );
+}
+
+async function applyRenameBulkSteps(file: FileSource, steps: RenameBulkStep[]) {
+  const operations: FileOperation[] = [];
+  try {
+    for (const step of steps) {
+      const bufOptions = {
+        skipModified: true,
+        bwipeout: true,
+        directory: step.directory,
+      };
+      if (step.type === 'trash') {
+        await fsTrash(step.source);
+        operations.push(step);
+        await file.bufManager.remove(step.source, bufOptions);
+      } else {
+        await fsMkdirp(pathLib.dirname(step.target));
+        await fsRename(step.source, step.target);
+        operations.push(step);
+        await file.bufManager.replace(step.source, step.target, bufOptions);
+      }
+    }
+  } catch (error) {
+    window.showMessage(
+      `Rename bulk stopped: ${(error as Error).message}`,
+      'error',
+    );
+  } finally {
+    fileJournal.record('rename bulk', operations);
+  }
+}
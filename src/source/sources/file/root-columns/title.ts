@@ -1,13 +1,22 @@
 import { fileColumnRegistrar } from '../fileColumnRegistrar';
 import { fileHighlights } from '../fileSource';
 
-fileColumnRegistrar.registerColumn('root', 'title', () => ({
+fileColumnRegistrar.registerColumn('root', 'title', ({ source }) => ({
   draw() {
     return {
       drawNode(row) {
         row.add('[FILE]', {
           hl: fileHighlights.title,
         });
+        const { type, order, directoriesFirst } = source.sort;
+        row.add(
+          ` (${type}${order === 'desc' ? '↓' : '↑'}${
+            directoriesFirst ? '' : ' mixed'
+          })`,
+          {
+            hl: fileHighlights.sort,
+          },
+        );
       },
     };
   },
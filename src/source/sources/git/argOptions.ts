@@ -0,0 +1,20 @@
+import { config } from '../../../config';
+import { Args } from '../../../arg/parseArgs';
+
+export const gitArgOptions = {
+  gitRootTemplate: Args.registerOption<string>('git-root-template', {
+    getDefault: () => config.get<string>('git.root.template')!,
+  }),
+  gitGroupTemplate: Args.registerOption<string>('git-group-template', {
+    getDefault: () => config.get<string>('git.group.template')!,
+  }),
+  gitChildTemplate: Args.registerOption<string>('git-child-template', {
+    getDefault: () => config.get<string>('git.child.template')!,
+  }),
+  gitChildLabelingTemplate: Args.registerOption<string>(
+    'git-child-labeling-template',
+    {
+      getDefault: () => config.get<string>('git.child.labelingTemplate')!,
+    },
+  ),
+};
@@ -0,0 +1,42 @@
+import { getStatusIcons } from '../../../../git/config';
+import { getGitFormatHighlight } from '../../../../git/highlights';
+import { GitFormat } from '../../../../git/types';
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { GitNode } from '../gitSource';
+
+const getFormat = (node: GitNode) => {
+  if (!node.status) {
+    return;
+  }
+  switch (node.group) {
+    case 'conflicts':
+      return GitFormat.unmerged;
+    case 'staged':
+      return node.status.x;
+    default:
+      return node.status.y;
+  }
+};
+
+gitColumnRegistrar.registerColumn('child', 'status', ({ source }) => {
+  const icons = getStatusIcons(source.config);
+
+  return {
+    draw() {
+      return {
+        drawNode(row, { node, isLabeling }) {
+          const format = getFormat(node);
+          if (!format) {
+            return;
+          }
+          const hl = getGitFormatHighlight(format);
+          if (isLabeling) {
+            row.add(`${icons[format].name}(${icons[format].icon})`, { hl });
+          } else {
+            row.add(icons[format].icon, { hl });
+          }
+        },
+      };
+    },
+  };
+});
@@ -0,0 +1,197 @@
+import { window, workspace } from 'coc.nvim';
+import os from 'os';
+import pathLib from 'path';
+import { ActionSource } from '../../../actions/actionSource';
+import { openAction } from '../../../actions/openAction';
+import { gitManager } from '../../../git/manager';
+import { OpenStrategy, openStrategyList } from '../../../types';
+import {
+  flatten,
+  fsMkdirp,
+  fsTrash,
+  fsWriteFile,
+  prompt,
+  uniq,
+} from '../../../util';
+import { GitNode, GitSource } from './gitSource';
+
+/**
+ * Write the content of file in revision to a temporary file,
+ * empty revision means the index
+ */
+async function writeRevisionFile(
+  root: string,
+  revision: string,
+  fullpath: string,
+) {
+  const content = await gitManager.cmd.show(root, revision, fullpath);
+  const tmpPath = pathLib.join(
+    os.tmpdir(),
+    'coc-explorer-git',
+    revision || 'INDEX',
+    pathLib.basename(root),
+    pathLib.relative(root, fullpath),
+  );
+  await fsMkdirp(pathLib.dirname(tmpPath));
+  await fsWriteFile(tmpPath, content);
+  return tmpPath;
+}
+
+export function loadGitActions(action: ActionSource<GitSource, GitNode>) {
+  const { nvim } = workspace;
+  const git = action.owner;
+
+  /**
+   * The child nodes of nodes, a group node means all its children
+   */
+  const childNodes = (nodes: GitNode[]) =>
+    uniq(
+      flatten(
+        nodes.map((node) => {
+          if (node.type === 'child') {
+            return [node];
+          } else if (node.type === 'group') {
+            return node.children ?? [];
+          }
+          return [];
+        }),
+      ),
+    );
+
+  const openActionArgs = [
+    {
+      name: 'open strategy',
+      description: openStrategyList.join(' | '),
+    },
+  ];
+
+  action.addNodesAction(
+    'gitStage',
+    async ({ nodes }) => {
+      const fullpaths = uniq(
+        childNodes(nodes)
+          .filter((node) => node.group !== 'staged')
+          .map((node) => node.fullpath),
+      );
+      await gitManager.cmd.stage(fullpaths);
+    },
+    'add file to git index',
+    { reload: true },
+  );
+
+  action.addNodesAction(
+    'gitUnstage',
+    async ({ nodes }) => {
+      const fullpaths = uniq(
+        childNodes(nodes)
+          .filter((node) => node.group === 'staged')
+          .map((node) => node.fullpath),
+      );
+      await gitManager.cmd.unstage(fullpaths);
+    },
+    'reset file from git index',
+    { reload: true },
+  );
+
+  action.addNodesAction(
+    'gitDiscard',
+    async ({ nodes }) => {
+      const children = childNodes(nodes);
+      const tracked = uniq(
+        children
+          .filter((node) => node.group === 'changes')
+          .map((node) => node.fullpath),
+      );
+      const untracked = uniq(
+        children
+          .filter((node) => node.group === 'untracked')
+          .map((node) => node.fullpath),
+      );
+      const count = tracked.length + untracked.length;
+      if (!count) {
+        return;
+      }
+      if (
+        (await prompt(
+          `Discard the changes of ${count} file(s)? untracked files will be moved to trash`,
+        )) !== 'yes'
+      ) {
+        return;
+      }
+      try {
+        await gitManager.cmd.discard(tracked);
+        if (untracked.length) {
+          await fsTrash(untracked);
+        }
+      } catch (error) {
+        window.showMessage((error as Error).message, 'error');
+      }
+    },
+    'discard the unstaged changes, untracked files will be moved to trash',
+    { reload: true },
+  );
+
+  action.addNodeAction(
+    'gitDiff',
+    async ({ node, args }) => {
+      if (node.type !== 'child') {
+        return;
+      }
+      const root = git.view.rootNode.fullpath;
+      const openStrategy = args[0] as OpenStrategy | undefined;
+      if (node.group === 'untracked') {
+        await openAction(git.explorer, git, node, () => node.fullpath, {
+          openStrategy,
+        });
+        return;
+      }
+      // staged: HEAD <-> index, changes: index <-> worktree
+      const [baseRevision, targetRevision] =
+        node.group === 'staged'
+          ? ['HEAD', '']
+          : node.group === 'changes'
+          ? ['', undefined]
+          : ['HEAD', undefined];
+      const basePath = await writeRevisionFile(
+        root,
+        baseRevision,
+        node.fullpath,
+      );
+      const targetPath =
+        targetRevision === undefined
+          ? node.fullpath
+          : await writeRevisionFile(root, targetRevision, node.fullpath);
+      await openAction(git.explorer, git, node, () => targetPath, {
+        openStrategy,
+      });
+      const escapedBasePath: string = await nvim.call('fnameescape', [
+        basePath,
+      ]);
+      nvim.pauseNotification();
+      nvim.command(`vertical leftabove diffsplit ${escapedBasePath}`, true);
+      nvim.command('wincmd p', true);
+      await nvim.resumeNotification();
+    },
+    'open the diff of file',
+    { args: openActionArgs },
+  );
+
+  action.addNodeAction(
+    'gitOpenHead',
+    async ({ node, args }) => {
+      if (node.type !== 'child') {
+        return;
+      }
+      const headPath = await writeRevisionFile(
+        git.view.rootNode.fullpath,
+        'HEAD',
+        node.fullpath,
+      );
+      await openAction(git.explorer, git, node, () => headPath, {
+        openStrategy: args[0] as OpenStrategy | undefined,
+      });
+    },
+    'open the HEAD version of file',
+    { args: openActionArgs },
+  );
+}
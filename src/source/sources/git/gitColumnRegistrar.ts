@@ -0,0 +1,6 @@
+import { GitNode, GitSource } from './gitSource';
+import { ColumnRegistrar } from '../../columnRegistrar';
+
+class GitColumnRegistrar extends ColumnRegistrar<GitNode, GitSource> {}
+
+export const gitColumnRegistrar = new GitColumnRegistrar();
@@ -0,0 +1,186 @@
+import pathLib from 'path';
+import { config } from '../../../config';
+import { internalEvents, onEvent } from '../../../events';
+import { gitManager } from '../../../git/manager';
+import { GitFormat, GitStatus } from '../../../git/types';
+import { internalHighlightGroups } from '../../../highlight/internalColors';
+import { hlGroupManager } from '../../../highlight/manager';
+import { debounceFn } from '../../../util';
+import { ViewSource } from '../../../view/viewSource';
+import { BaseTreeNode, ExplorerSource } from '../../source';
+import { sourceManager } from '../../sourceManager';
+import { gitArgOptions } from './argOptions';
+import { loadGitActions } from './gitActions';
+import { gitColumnRegistrar } from './gitColumnRegistrar';
+import './load';
+
+export type GitGroup = 'conflicts' | 'staged' | 'changes' | 'untracked';
+
+export const gitGroupTitles: Record<GitGroup, string> = {
+  conflicts: 'Conflicts',
+  staged: 'Staged',
+  changes: 'Changes',
+  untracked: 'Untracked',
+};
+
+export interface GitNode
+  extends BaseTreeNode<GitNode, 'root' | 'group' | 'child'> {
+  fullpath: string;
+  name: string;
+  group?: GitGroup;
+  status?: GitStatus;
+}
+
+const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
+
+export const gitSourceHighlights = {
+  title: hlg('GitRoot', 'Constant'),
+  expandIcon: hlg('GitExpandIcon', 'Directory'),
+  rootPath: hlg('GitRootPath', internalHighlightGroups.CommentColor),
+  groupTitle: hlg('GitGroupTitle', 'Title'),
+  groupCount: hlg('GitGroupCount', internalHighlightGroups.CommentColor),
+  filepath: hlg('GitFilepath', 'String'),
+  fullpath: hlg('GitFullpath', internalHighlightGroups.CommentColor),
+};
+
+export class GitSource extends ExplorerSource<GitNode> {
+  view: ViewSource<GitNode> = new ViewSource<GitNode>(
+    this,
+    gitColumnRegistrar,
+    {
+      type: 'root',
+      isRoot: true,
+      expandable: true,
+      uid: this.helper.getUid('0'),
+      name: '',
+      fullpath: '',
+    },
+  );
+  /**
+   * The groups have been expanded by default since the explorer opened
+   */
+  private initedGroups = new Set<GitGroup>();
+  private statusesByGroup = new Map<GitGroup, GitStatus[]>();
+
+  static get enabled(): boolean | Promise<boolean> {
+    if (!config.get<boolean>('git.enable')) {
+      return false;
+    }
+    return gitManager.cmd.available();
+  }
+
+  async init() {
+    const reload = debounceFn(500, async () => {
+      if (!this.explorer.visible()) {
+        return;
+      }
+      await this.load(this.view.rootNode);
+    });
+    this.disposables.push(
+      reload,
+      ...(['CocGitStatusChange', 'FugitiveChanged'] as const).map((event) =>
+        internalEvents.on(event, reload),
+      ),
+      onEvent('BufWritePost', reload),
+    );
+
+    loadGitActions(this.action);
+  }
+
+  async open() {
+    await this.view.parseTemplate(
+      'root',
+      await this.explorer.args.value(gitArgOptions.gitRootTemplate),
+    );
+    await this.view.parseTemplate(
+      'group',
+      await this.explorer.args.value(gitArgOptions.gitGroupTemplate),
+    );
+    await this.view.parseTemplate(
+      'child',
+      await this.explorer.args.value(gitArgOptions.gitChildTemplate),
+      await this.explorer.args.value(gitArgOptions.gitChildLabelingTemplate),
+    );
+
+    this.initedGroups.clear();
+    this.view.rootNode.fullpath =
+      (await gitManager.getGitRoot(this.explorer.root)) ?? this.explorer.root;
+  }
+
+  /**
+   * Split the statuses into groups, a file with both staged and unstaged
+   * changes appears in the staged and changes groups
+   */
+  private groupStatuses(statuses: Iterable<GitStatus>) {
+    const groups = new Map<GitGroup, GitStatus[]>(
+      Object.keys(gitGroupTitles).map((group) => [group as GitGroup, []]),
+    );
+    for (const status of statuses) {
+      if (status.ignored) {
+        continue;
+      }
+      if (status.unmerged) {
+        groups.get('conflicts')!.push(status);
+      } else if (status.untracked) {
+        groups.get('untracked')!.push(status);
+      } else {
+        if (status.x !== GitFormat.unmodified) {
+          groups.get('staged')!.push(status);
+        }
+        if (status.y !== GitFormat.unmodified) {
+          groups.get('changes')!.push(status);
+        }
+      }
+    }
+    for (const list of groups.values()) {
+      list.sort((a, b) => a.fullpath.localeCompare(b.fullpath));
+    }
+    return groups;
+  }
+
+  async loadChildren(parentNode: GitNode): Promise<GitNode[]> {
+    const root = this.view.rootNode.fullpath;
+    if (parentNode.type === 'root') {
+      if (!(await gitManager.reload(root))) {
+        this.statusesByGroup = new Map();
+        return [];
+      }
+      this.statusesByGroup = this.groupStatuses(
+        gitManager.getStatusesByRoot(root).values(),
+      );
+      const groupNodes: GitNode[] = [];
+      for (const [group, statuses] of this.statusesByGroup) {
+        if (!statuses.length) {
+          continue;
+        }
+        const groupNode: GitNode = {
+          type: 'group',
+          uid: this.helper.getUid(`group:${group}`),
+          expandable: true,
+          fullpath: root,
+          name: gitGroupTitles[group],
+          group,
+        };
+        if (!this.initedGroups.has(group)) {
+          this.initedGroups.add(group);
+          this.view.setExpanded(groupNode, true);
+        }
+        groupNodes.push(groupNode);
+      }
+      return groupNodes;
+    } else if (parentNode.type === 'group' && parentNode.group) {
+      const group = parentNode.group;
+      return (this.statusesByGroup.get(group) ?? []).map((status) => ({
+        type: 'child',
+        uid: this.helper.getUid(`${group}:${status.fullpath}`),
+        fullpath: status.fullpath,
+        name: pathLib.relative(root, status.fullpath),
+        group,
+        status,
+      }));
+    }
+    return [];
+  }
+}
+
+sourceManager.registerSource('git', GitSource);
@@ -0,0 +1,16 @@
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { gitSourceHighlights } from '../gitSource';
+
+gitColumnRegistrar.registerColumn('group', 'count', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (node.children) {
+          row.add(`(${node.children.length})`, {
+            hl: gitSourceHighlights.groupCount,
+          });
+        }
+      },
+    };
+  },
+}));
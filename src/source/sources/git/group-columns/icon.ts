@@ -0,0 +1,17 @@
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { gitSourceHighlights } from '../gitSource';
+
+gitColumnRegistrar.registerColumn('group', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: gitSourceHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
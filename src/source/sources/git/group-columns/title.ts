@@ -0,0 +1,14 @@
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { gitSourceHighlights } from '../gitSource';
+
+gitColumnRegistrar.registerColumn('group', 'title', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        source.view.filter.drawName(row, node, {
+          hl: gitSourceHighlights.groupTitle,
+        });
+      },
+    };
+  },
+}));
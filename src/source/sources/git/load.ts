@@ -0,0 +1,12 @@
+import './root-columns/icon';
+import './root-columns/title';
+import './root-columns/filepath';
+
+import './group-columns/icon';
+import './group-columns/title';
+import './group-columns/count';
+
+import './child-columns/selection';
+import './child-columns/status';
+import './child-columns/filepath';
+import './child-columns/fullpath';
@@ -0,0 +1,15 @@
+import { displayedFullpath } from '../../../../util';
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { gitSourceHighlights } from '../gitSource';
+
+gitColumnRegistrar.registerColumn('root', 'filepath', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(displayedFullpath(node.fullpath), {
+          hl: gitSourceHighlights.rootPath,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,14 @@
+import { gitColumnRegistrar } from '../gitColumnRegistrar';
+import { gitSourceHighlights } from '../gitSource';
+
+gitColumnRegistrar.registerColumn('root', 'title', () => ({
+  draw() {
+    return {
+      drawNode(row) {
+        row.add('[GIT]', {
+          hl: gitSourceHighlights.title,
+        });
+      },
+    };
+  },
+}));
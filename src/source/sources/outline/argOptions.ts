@@ -0,0 +1,17 @@
+import { config } from '../../../config';
+import { Args } from '../../../arg/parseArgs';
+
+export const outlineArgOptions = {
+  outlineRootTemplate: Args.registerOption<string>('outline-root-template', {
+    getDefault: () => config.get<string>('outline.root.template')!,
+  }),
+  outlineChildTemplate: Args.registerOption<string>('outline-child-template', {
+    getDefault: () => config.get<string>('outline.child.template')!,
+  }),
+  outlineChildLabelingTemplate: Args.registerOption<string>(
+    'outline-child-labeling-template',
+    {
+      getDefault: () => config.get<string>('outline.child.labelingTemplate')!,
+    },
+  ),
+};
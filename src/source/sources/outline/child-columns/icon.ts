@@ -0,0 +1,19 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('child', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (node.expandable) {
+          row.add(
+            source.view.isExpanded(node)
+              ? source.icons.expanded
+              : source.icons.collapsed,
+            { hl: outlineHighlights.expandIcon },
+          );
+        }
+      },
+    };
+  },
+}));
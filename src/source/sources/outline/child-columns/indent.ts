@@ -0,0 +1,11 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+
+outlineColumnRegistrar.registerColumn('child', 'indent', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add('  '.repeat((node.level ?? 1) - 1));
+      },
+    };
+  },
+}));
@@ -0,0 +1,70 @@
+import { hlGroupManager } from '../../../../highlight/manager';
+import { HighlightCommand } from '../../../../highlight/types';
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+
+/**
+ * The symbol kinds with the codicons of nerdfont, the text icons
+ * and the highlight groups to link
+ */
+const kindIcons: Record<string, [nerdfont: string, text: string, hl: string]> =
+  {
+    File: ['', '@', 'Directory'],
+    Module: ['', 'M', 'Include'],
+    Namespace: ['', 'N', 'Include'],
+    Package: ['', 'P', 'Include'],
+    Class: ['', 'C', 'Type'],
+    Method: ['', 'm', 'Function'],
+    Property: ['', 'p', 'Identifier'],
+    Field: ['', 'f', 'Identifier'],
+    Constructor: ['', 'c', 'Function'],
+    Enum: ['', 'E', 'Type'],
+    Interface: ['', 'I', 'Type'],
+    Function: ['', 'F', 'Function'],
+    Variable: ['', 'v', 'Identifier'],
+    Constant: ['', 'K', 'Constant'],
+    String: ['', 's', 'String'],
+    Number: ['', 'n', 'Number'],
+    Boolean: ['', 'b', 'Boolean'],
+    Array: ['', 'a', 'Type'],
+    Object: ['', 'o', 'Type'],
+    Key: ['', 'k', 'Identifier'],
+    Null: ['', '0', 'Constant'],
+    EnumMember: ['', 'e', 'Constant'],
+    Struct: ['', 'S', 'Type'],
+    Event: ['', '!', 'Special'],
+    Operator: ['', '+', 'Operator'],
+    TypeParameter: ['', 'T', 'Type'],
+  };
+
+const kindHighlights = new Map<string, HighlightCommand>(
+  Object.entries(kindIcons).map(([kind, [, , hl]]) => [
+    kind,
+    hlGroupManager.linkGroup(`OutlineKind${kind}`, hl),
+  ]),
+);
+
+outlineColumnRegistrar.registerColumn('child', 'kind', ({ source }) => {
+  const enabledNerdFont = source.config.get('icon.enableNerdfont');
+
+  return {
+    draw() {
+      return {
+        drawNode(row, { node, isLabeling }) {
+          const hl = kindHighlights.get(node.kind);
+          if (isLabeling) {
+            row.add(node.kind, { hl });
+            return;
+          }
+          const icon = kindIcons[node.kind] as
+            | (typeof kindIcons)[string]
+            | undefined;
+          if (icon) {
+            row.add(enabledNerdFont ? icon[0] : icon[1], { hl });
+          } else {
+            row.add('?');
+          }
+        },
+      };
+    },
+  };
+});
@@ -0,0 +1,12 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('child', 'name', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        source.view.filter.drawName(row, node, { hl: outlineHighlights.name });
+      },
+    };
+  },
+}));
@@ -0,0 +1,15 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('child', 'position', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        const { start } = node.range;
+        row.add(`${start.line + 1}:${start.character + 1}`, {
+          hl: outlineHighlights.position,
+        });
+      },
+    };
+  },
+}));
@@ -0,0 +1,13 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+
+outlineColumnRegistrar.registerColumn('child', 'selection', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        if (source.isSelectedNode(node)) {
+          row.add(source.icons.selected);
+        }
+      },
+    };
+  },
+}));
@@ -0,0 +1,10 @@
+import './root-columns/icon';
+import './root-columns/title';
+import './root-columns/filename';
+
+import './child-columns/selection';
+import './child-columns/indent';
+import './child-columns/icon';
+import './child-columns/kind';
+import './child-columns/name';
+import './child-columns/position';
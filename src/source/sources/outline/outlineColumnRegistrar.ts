@@ -0,0 +1,9 @@
+import { OutlineNode, OutlineSource } from './outlineSource';
+import { ColumnRegistrar } from '../../columnRegistrar';
+
+class OutlineColumnRegistrar extends ColumnRegistrar<
+  OutlineNode,
+  OutlineSource
+> {}
+
+export const outlineColumnRegistrar = new OutlineColumnRegistrar();
@@ -0,0 +1,274 @@
+import { Location, Position, Range, workspace } from 'coc.nvim';
+import pathLib from 'path';
+import { onBufEnter, onCursorMoved, onEvent } from '../../../events';
+import { internalHighlightGroups } from '../../../highlight/internalColors';
+import { hlGroupManager } from '../../../highlight/manager';
+import { debounceFn } from '../../../util';
+import { ViewSource } from '../../../view/viewSource';
+import { BaseTreeNode, ExplorerSource, NodeUid } from '../../source';
+import { sourceManager } from '../../sourceManager';
+import { outlineArgOptions } from './argOptions';
+import { outlineColumnRegistrar } from './outlineColumnRegistrar';
+import './load';
+
+export interface OutlineNode
+  extends BaseTreeNode<OutlineNode, 'root' | 'child'> {
+  fullpath: string;
+  name: string;
+  /**
+   * The symbol kind name, e.g. `Function`, empty for the root node
+   */
+  kind: string;
+  /**
+   * The 0-based range enclosing the symbol
+   */
+  range: Range;
+}
+
+/**
+ * The document symbol flattened by `CocAction('documentSymbols')`
+ */
+interface SymbolInfo {
+  text: string;
+  kind: string;
+  level?: number;
+  range: Range;
+  selectionRange?: Range;
+}
+
+const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
+
+export const outlineHighlights = {
+  title: hlg('OutlineRoot', 'Constant'),
+  expandIcon: hlg('OutlineExpandIcon', 'Directory'),
+  filename: hlg('OutlineFilename', 'String'),
+  name: hlg('OutlineName', 'None'),
+  position: hlg('OutlinePosition', internalHighlightGroups.CommentColor),
+};
+
+function rangeContains(range: Range, position: Position) {
+  const { start, end } = range;
+  if (position.line < start.line || position.line > end.line) {
+    return false;
+  }
+  if (position.line === start.line && position.character < start.character) {
+    return false;
+  }
+  if (position.line === end.line && position.character > end.character) {
+    return false;
+  }
+  return true;
+}
+
+export class OutlineSource extends ExplorerSource<OutlineNode> {
+  view: ViewSource<OutlineNode> = new ViewSource<OutlineNode>(
+    this,
+    outlineColumnRegistrar,
+    {
+      type: 'root',
+      isRoot: true,
+      expandable: true,
+      uid: this.helper.getUid('0'),
+      name: '',
+      fullpath: '',
+      kind: '',
+      range: Range.create(0, 0, 0, 0),
+    },
+  );
+  /**
+   * The buffer that the outline follows
+   */
+  bufnr?: number;
+  private symbolChildren = new Map<NodeUid, OutlineNode[]>();
+
+  async init() {
+    const reload = debounceFn(500, async () => {
+      if (!this.explorer.visible()) {
+        return;
+      }
+      await this.load(this.view.rootNode);
+    });
+    this.disposables.push(
+      reload,
+      onBufEnter(async (bufnr) => {
+        if (!this.isOutlineBuffer(bufnr) || bufnr === this.bufnr) {
+          return;
+        }
+        if (!this.explorer.visible() || this.explorer.isFloating) {
+          return;
+        }
+        this.bufnr = bufnr;
+        await this.load(this.view.rootNode);
+      }, 200),
+      workspace.onDidChangeTextDocument((e) => {
+        if (e.bufnr === this.bufnr) {
+          reload();
+        }
+      }),
+      onEvent('BufWritePost', (bufnr: number) => {
+        if (bufnr === this.bufnr) {
+          reload();
+        }
+      }),
+    );
+
+    if (this.config.get<boolean>('outline.reveal.auto')) {
+      this.disposables.push(
+        onCursorMoved(async (bufnr) => {
+          if (bufnr !== this.bufnr || !this.explorer.visible()) {
+            return;
+          }
+          await this.revealCursorSymbol();
+        }, 300),
+      );
+    }
+  }
+
+  async open() {
+    await this.view.parseTemplate(
+      'root',
+      await this.explorer.args.value(outlineArgOptions.outlineRootTemplate),
+    );
+    await this.view.parseTemplate(
+      'child',
+      await this.explorer.args.value(outlineArgOptions.outlineChildTemplate),
+      await this.explorer.args.value(
+        outlineArgOptions.outlineChildLabelingTemplate,
+      ),
+    );
+
+    const bufnr = await this.explorer.sourceBufnrBySourceWinid();
+    if (bufnr && this.isOutlineBuffer(bufnr)) {
+      this.bufnr = bufnr;
+    }
+  }
+
+  /**
+   * Only follow the normal buffers
+   */
+  private isOutlineBuffer(bufnr: number) {
+    const doc = workspace.getDocument(bufnr);
+    return !!doc && doc.buftype === '';
+  }
+
+  private async getSymbols(bufnr: number): Promise<SymbolInfo[]> {
+    try {
+      const symbols = (await this.nvim.callAsync('coc#util#with_callback', [
+        'CocAction',
+        ['documentSymbols', bufnr],
+      ])) as SymbolInfo[] | null;
+      return symbols ?? [];
+    } catch {
+      // the document symbol provider not found
+      return [];
+    }
+  }
+
+  /**
+   * Build the symbol tree from the levels of flattened symbols
+   */
+  private buildSymbolTree(fullpath: string, symbols: SymbolInfo[]) {
+    const rootNode = this.view.rootNode;
+    this.symbolChildren = new Map([[rootNode.uid, []]]);
+    const stack: { level: number; key: string; node: OutlineNode }[] = [];
+    const keys = new Set<string>();
+    for (const symbol of symbols) {
+      const level = symbol.level ?? 0;
+      while (stack.length && stack[stack.length - 1].level >= level) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+      const parentNode = parent?.node ?? rootNode;
+      // the key without position keeps the expanded state after editing
+      const baseKey = `${parent?.key ?? ''}/${symbol.kind}:${symbol.text}`;
+      let key = baseKey;
+      for (let i = 1; keys.has(key); i++) {
+        key = `${baseKey}#${i}`;
+      }
+      keys.add(key);
+      const { start } = symbol.selectionRange ?? symbol.range;
+      const node: OutlineNode = {
+        type: 'child',
+        uid: this.helper.getUid(key),
+        fullpath,
+        name: symbol.text,
+        kind: symbol.kind,
+        range: symbol.range,
+        // the line of location is 1-based like the bookmark source
+        location: Location.create(
+          fullpath,
+          Range.create(
+            start.line + 1,
+            start.character,
+            start.line + 1,
+            start.character,
+          ),
+        ),
+      };
+      parentNode.expandable = true;
+      this.symbolChildren.get(parentNode.uid)?.push(node);
+      this.symbolChildren.set(node.uid, []);
+      stack.push({ level, key, node });
+    }
+  }
+
+  /**
+   * Expand the parents of the innermost symbol under the cursor and goto it
+   */
+  async revealCursorSymbol() {
+    const [, lnum, col] = (await this.nvim.call('getcurpos')) as number[];
+    const position = Position.create(lnum - 1, col - 1);
+    const path: OutlineNode[] = [];
+    let children = this.symbolChildren.get(this.view.rootNode.uid);
+    while (children) {
+      const child = children.find((node) =>
+        rangeContains(node.range, position),
+      );
+      if (!child) {
+        break;
+      }
+      path.push(child);
+      children = this.symbolChildren.get(child.uid);
+    }
+    const symbolNode = path.pop();
+    if (!symbolNode) {
+      return;
+    }
+    await this.view.sync(async (r) => {
+      const collapsedNodes = [this.view.rootNode, ...path].filter(
+        (node) => !this.view.isExpanded(node),
+      );
+      for (const node of collapsedNodes) {
+        await this.view.expand(node, {
+          compact: false,
+          uncompact: false,
+          render: false,
+        });
+      }
+      if (collapsedNodes.length) {
+        await (await r.renderNotifier({ node: collapsedNodes[0] }))?.run();
+      }
+      await (await this.locator.gotoNodeNotifier(symbolNode)).run();
+    });
+  }
+
+  async loadChildren(parentNode: OutlineNode): Promise<OutlineNode[]> {
+    if (parentNode.type === 'root') {
+      const fullpath = this.bufnr
+        ? this.bufManager.getBufferNode(this.bufnr)?.fullpath
+        : undefined;
+      if (!this.bufnr || !fullpath) {
+        parentNode.name = '';
+        parentNode.fullpath = '';
+        this.symbolChildren = new Map();
+        return [];
+      }
+      parentNode.fullpath = fullpath;
+      parentNode.name = pathLib.basename(fullpath);
+      this.buildSymbolTree(fullpath, await this.getSymbols(this.bufnr));
+    }
+    return this.symbolChildren.get(parentNode.uid) ?? [];
+  }
+}
+
+sourceManager.registerSource('outline', OutlineSource);
@@ -0,0 +1,14 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('root', 'filename', () => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(node.name, {
+          hl: outlineHighlights.filename,
+        });
+      },
+    };
+  },
+}));
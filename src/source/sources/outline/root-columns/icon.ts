@@ -0,0 +1,17 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('root', 'icon', ({ source }) => ({
+  draw() {
+    return {
+      drawNode(row, { node }) {
+        row.add(
+          source.view.isExpanded(node)
+            ? source.icons.expanded
+            : source.icons.collapsed,
+          { hl: outlineHighlights.expandIcon },
+        );
+      },
+    };
+  },
+}));
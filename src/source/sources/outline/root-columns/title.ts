@@ -0,0 +1,14 @@
+import { outlineColumnRegistrar } from '../outlineColumnRegistrar';
+import { outlineHighlights } from '../outlineSource';
+
+outlineColumnRegistrar.registerColumn('root', 'title', () => ({
+  draw() {
+    return {
+      drawNode(row) {
+        row.add('[OUTLINE]', {
+          hl: outlineHighlights.title,
+        });
+      },
+    };
+  },
+}));
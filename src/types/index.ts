@@ -1,4 +1,9 @@
-import { Explorer, PreviewActionStrategy, RootStrategy } from './pkg-config';
+import {
+  Explorer,
+  FileSortType,
+  PreviewActionStrategy,
+  RootStrategy,
+} from './pkg-config';
 import { LiteralUnion } from 'type-fest';
 
 export const textobjTargetList = ['line', 'indent'] as const;
@@ -60,6 +65,14 @@ export const pasteFileTypeList = ['keepCopy', 'clear'] as const;
 
 export type PasteFileType = typeof pasteFileTypeList[number];
 
+export const renameBulkTypeList = ['selection', 'directory'] as const;
+
+export type RenameBulkType = typeof renameBulkTypeList[number];
+
+export const filterTypeList = ['fuzzy', 'glob', 'regex'] as const;
+
+export type FilterType = typeof filterTypeList[number];
+
 export const previewOnHoverActionList = [
   'toggle',
   'enable',
@@ -71,6 +84,9 @@ export type PreviewOnHoverAction = typeof previewOnHoverActionList[number];
 export const previewStrategyList: PreviewActionStrategy[] = [
   'labeling',
   'content',
+  'directory',
+  'metadata',
+  'diff',
 ];
 
 export const rootStrategyList: RootStrategy[] = [
@@ -87,6 +103,25 @@ export const searchOptionList = ['recursive', 'noIgnore', 'strict'] as const;
 
 export type SearchOption = typeof searchOptionList[number];
 
+export const fileSortTypeList: FileSortType[] = [
+  'name',
+  'extension',
+  'size',
+  'mtime',
+  'ctime',
+  'git',
+];
+
+export const fileSortOrderList = ['asc', 'desc'] as const;
+
+export type FileSortOrder = typeof fileSortOrderList[number];
+
+export type FileSortOptions = {
+  type: FileSortType;
+  order: FileSortOrder;
+  directoriesFirst: boolean;
+};
+
 export const expandOptionList = [
   'recursive',
   'compact',
@@ -100,6 +135,28 @@ export const collapseOptionList = ['recursive', 'all'] as const;
 
 export type CollapseOption = typeof collapseOptionList[number];
 
+export const bufferGroupByList = [
+  'none',
+  'directory',
+  'tab',
+  'window',
+] as const;
+
+export type BufferGroupBy = (typeof bufferGroupByList)[number];
+
+export const bufferSortTypeList = ['bufnr', 'mru'] as const;
+
+export type BufferSortType = (typeof bufferSortTypeList)[number];
+
+export const diagnosticSeverityList = [
+  'error',
+  'warning',
+  'info',
+  'hint',
+] as const;
+
+export type DiagnosticSeverity = (typeof diagnosticSeverityList)[number];
+
 export type ExplorerOpenOptions = {
   width: number;
   height: number;
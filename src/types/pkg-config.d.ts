@@ -17,8 +17,12 @@ export type MappingAction =
 /**
  * Strategy for preview action
  */
-export type PreviewActionStrategy = 'labeling' | 'content';
+export type PreviewActionStrategy = 'labeling' | 'content' | 'directory' | 'metadata' | 'diff';
 export type RootStrategy = 'keep' | 'workspace' | 'cwd' | 'sourceBuffer' | 'reveal';
+/**
+ * Sort type for file source
+ */
+export type FileSortType = 'name' | 'extension' | 'size' | 'mtime' | 'ctime' | 'git';
 
 export interface Explorer {
   /**
@@ -60,9 +64,9 @@ export interface Explorer {
        */
       sources?: {
         /**
-         * Explorer source name
+         * Explorer source name, or the name of source registered by other extensions
          */
-        name: 'bookmark' | 'buffer' | 'file';
+        name: ('bookmark' | 'buffer' | 'diagnostic' | 'file' | 'git' | 'outline') | string;
         /**
          * Whether to expand it by default
          */
@@ -105,6 +109,10 @@ export interface Explorer {
        * Template for root node of buffer source
        */
       'buffer-root-template'?: string;
+      /**
+       * Template for group node of buffer source
+       */
+      'buffer-group-template'?: string;
       /**
        * Template for child node of buffer source
        */
@@ -136,6 +144,10 @@ export interface Explorer {
    * Mouse mode
    */
   'explorer.mouseMode'?: 'none' | 'singleclick' | 'doubleclick';
+  /**
+   * Drag the files by mouse and drop them to the directory to move, hold ctrl when dragging to copy, require mouseMode is not none
+   */
+  'explorer.mouseDragAndDrop'?: boolean;
   /**
    * Keymapping mode
    */
@@ -160,6 +172,38 @@ export interface Explorer {
       [k: string]: MappingActionExp | false;
     };
   };
+  /**
+   * Custom actions defined by shell or vim command, the name can be used in mappings. Placeholders in command: ${path}, ${paths}, ${name}, ${dir}, ${root} and ${gitRoot}
+   */
+  'explorer.customActions'?: {
+    [k: string]: {
+      /**
+       * Command template, the placeholders will be replaced by escaped values
+       */
+      command: string;
+      /**
+       * Type of command
+       */
+      type?: 'shell' | 'vim';
+      /**
+       * Description in actionMenu and help
+       */
+      description?: string;
+      /**
+       * Run the shell command in a terminal split
+       */
+      terminal?: boolean;
+      /**
+       * Where to show the output of command
+       */
+      output?: 'none' | 'message' | 'float';
+      /**
+       * Reload the source after the command finished
+       */
+      reload?: boolean;
+      [k: string]: unknown;
+    };
+  };
   /**
    * Close the explorer if it exists
    */
@@ -226,6 +270,10 @@ export interface Explorer {
    * quit explorer when open action
    */
   'explorer.quitOnOpen'?: boolean;
+  /**
+   * Default pattern type of the filter action
+   */
+  'explorer.filter.type'?: 'fuzzy' | 'glob' | 'regex';
   /**
    * Open preview when hovering over on node
    */
@@ -280,14 +328,18 @@ export interface Explorer {
     | {
         excludes: string[];
       };
+  /**
+   * Persist the expanded state of nodes per workspace root across vim sessions, only works for the sources with expand stores enabled
+   */
+  'explorer.persistExpanded'?: boolean;
   /**
    * Explorer sources
    */
   'explorer.sources'?: {
     /**
-     * Explorer source name
+     * Explorer source name, or the name of source registered by other extensions
      */
-    name: 'bookmark' | 'buffer' | 'file';
+    name: ('bookmark' | 'buffer' | 'diagnostic' | 'file' | 'git' | 'outline') | string;
     /**
      * Whether to expand it by default
      */
@@ -406,10 +458,22 @@ export interface Explorer {
    * Icon for readonly
    */
   'explorer.icon.readonly'?: string;
+  /**
+   * Icon for pinned buffer
+   */
+  'explorer.icon.pinned'?: string;
+  /**
+   * Use the built-in bookmark store instead of coc-bookmark, the bookmarks follow the line changes of opened buffers
+   */
+  'explorer.bookmark.native'?: boolean;
   /**
    * Template for root node of bookmark source
    */
   'explorer.bookmark.root.template'?: string;
+  /**
+   * Template for file node of bookmark source
+   */
+  'explorer.bookmark.file.template'?: string;
   /**
    * Template for child node of bookmark source
    */
@@ -426,10 +490,22 @@ export interface Explorer {
    * Default only show buffers in current tab
    */
   'explorer.buffer.tabOnly'?: boolean;
+  /**
+   * Default grouping of buffers, the group nodes aggregate the modified, git and diagnostic states of their buffers
+   */
+  'explorer.buffer.groupBy'?: 'none' | 'directory' | 'tab' | 'window';
+  /**
+   * Default sort order for buffer source, the pinned buffers are always first
+   */
+  'explorer.buffer.sort'?: 'bufnr' | 'mru';
   /**
    * Template for root node of buffer source
    */
   'explorer.buffer.root.template'?: string;
+  /**
+   * Template for group node of buffer source
+   */
+  'explorer.buffer.group.template'?: string;
   /**
    * Template for child node of buffer source
    */
@@ -488,6 +564,49 @@ export interface Explorer {
    * Default show hidden files
    */
   'explorer.file.showHiddenFiles'?: boolean;
+  /**
+   * Default sort order for file source
+   */
+  'explorer.file.sort'?: {
+    type?: FileSortType;
+    /**
+     * Ascending or descending
+     */
+    order?: 'asc' | 'desc';
+    /**
+     * Put directories before files
+     */
+    directoriesFirst?: boolean;
+    [k: string]: unknown;
+  };
+  /**
+   * Maximum number of file operations that can be undone
+   */
+  'explorer.file.undoLevels'?: number;
+  /**
+   * Watch the expanded directories and reload them when files are added, removed or renamed outside
+   */
+  'explorer.file.watcher.enable'?: boolean;
+  /**
+   * Glob patterns of directories that will not be watched, their subdirectories are excluded as well
+   */
+  'explorer.file.watcher.exclude'?: string[];
+  /**
+   * Maximum number of directories watched by each explorer
+   */
+  'explorer.file.watcher.maxWatchers'?: number;
+  /**
+   * Delay in milliseconds to collect a burst of changes before reloading
+   */
+  'explorer.file.watcher.debounce'?: number;
+  /**
+   * Browse the zip, jar, tar and tar.gz files as read-only virtual directories
+   */
+  'explorer.file.archive.enable'?: boolean;
+  /**
+   * Show the workspace folders as sibling roots in the file source when there are multiple workspace folders
+   */
+  'explorer.file.multiRoot'?: boolean;
   /**
    * Template for root node of file source
    */
@@ -555,6 +674,26 @@ export interface Explorer {
    * Subscript number for diagnostic count
    */
   'explorer.diagnostic.enableSubscriptNumber'?: boolean;
+  /**
+   * Severities of the diagnostics displayed in the diagnostic source by default
+   */
+  'explorer.diagnostic.severities'?: ('error' | 'warning' | 'info' | 'hint')[];
+  /**
+   * Template for root node of diagnostic source
+   */
+  'explorer.diagnostic.root.template'?: string;
+  /**
+   * Template for file node of diagnostic source
+   */
+  'explorer.diagnostic.file.template'?: string;
+  /**
+   * Template for child node of diagnostic source
+   */
+  'explorer.diagnostic.child.template'?: string;
+  /**
+   * Labeling template for child node of diagnostic source, use for preview when previewAction is labeling
+   */
+  'explorer.diagnostic.child.labelingTemplate'?: string;
   /**
    * Enable git
    */
@@ -643,6 +782,50 @@ export interface Explorer {
    * Show ignored files in git
    */
   'explorer.git.showIgnored'?: boolean;
+  /**
+   * Template for root node of git source
+   */
+  'explorer.git.root.template'?: string;
+  /**
+   * Template for group node of git source
+   */
+  'explorer.git.group.template'?: string;
+  /**
+   * Template for child node of git source
+   */
+  'explorer.git.child.template'?: string;
+  /**
+   * Labeling template for child node of git source, use for preview when previewAction is labeling
+   */
+  'explorer.git.child.labelingTemplate'?: string;
+  /**
+   * Reveal the symbol under the cursor of the followed buffer in the outline source
+   */
+  'explorer.outline.reveal.auto'?: boolean;
+  /**
+   * Template for root node of outline source
+   */
+  'explorer.outline.root.template'?: string;
+  /**
+   * Template for child node of outline source
+   */
+  'explorer.outline.child.template'?: string;
+  /**
+   * Labeling template for child node of outline source, use for preview when previewAction is labeling
+   */
+  'explorer.outline.child.labelingTemplate'?: string;
+  /**
+   * Template for root node of compare source
+   */
+  'explorer.compare.root.template'?: string;
+  /**
+   * Template for child node of compare source
+   */
+  'explorer.compare.child.template'?: string;
+  /**
+   * Labeling template for child node of compare source, use for preview when previewAction is labeling
+   */
+  'explorer.compare.child.labelingTemplate'?: string;
   /**
    * Enable debug
    */
@@ -0,0 +1,414 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import pathLib from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import {
+  parseTarHeader,
+  parseZipCentralDirectory,
+  parseZipEndOfCentralDirectory,
+  parseZipLocalHeaderSize,
+} from './binary';
+import { fsClose, fsMkdirp, fsOpen, fsReadAt, fsStat, fsWriteFile } from './fs';
+
+const inflateRaw = promisify(zlib.inflateRaw);
+
+export type ArchiveType = 'zip' | 'tar' | 'tgz';
+
+export function getArchiveType(filename: string): ArchiveType | undefined {
+  const name = filename.toLowerCase();
+  if (name.endsWith('.zip') || name.endsWith('.jar')) {
+    return 'zip';
+  } else if (name.endsWith('.tar')) {
+    return 'tar';
+  } else if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) {
+    return 'tgz';
+  }
+}
+
+export interface ArchiveEntry {
+  archivePath: string;
+  /**
+   * The path inside the archive, separated by `/` without trailing slash
+   */
+  path: string;
+  directory: boolean;
+  size: number;
+  /**
+   * The location of data in the archive,
+   * undefined means the directory is implied by the paths of its children
+   */
+  data?: {
+    /**
+     * The offset of local file header for zip, or the offset of content for tar
+     */
+    offset: number;
+    compressedSize: number;
+    method: number;
+  };
+}
+
+interface ArchiveReader {
+  /**
+   * Infinity means the size is unknown until the end of data
+   */
+  size: number;
+  read(position: number, length: number): Promise<Buffer>;
+}
+
+/**
+ * Read the gunzipped data forward only, the data before the read position is
+ * discarded to avoid holding the whole archive in memory
+ */
+class GzipForwardReader implements ArchiveReader {
+  size = Infinity;
+  private fileStream: fs.ReadStream;
+  private stream: zlib.Gunzip;
+  private chunks: Buffer[] = [];
+  /**
+   * The position of the first buffered chunk
+   */
+  private start = 0;
+  private buffered = 0;
+  /**
+   * The range of the pending read
+   */
+  private position = 0;
+  private end = 0;
+  private ended = false;
+  private error?: Error;
+  private notify?: () => void;
+
+  constructor(archivePath: string) {
+    this.fileStream = fs.createReadStream(archivePath);
+    this.stream = this.fileStream.pipe(zlib.createGunzip());
+    const onError = (error: Error) => {
+      this.error = error;
+      this.notify?.();
+    };
+    this.fileStream.on('error', onError);
+    this.stream.on('error', onError);
+    this.stream.on('data', (chunk: Buffer) => {
+      this.chunks.push(chunk);
+      this.buffered += chunk.length;
+      this.discardBefore(this.position);
+      if (this.start + this.buffered >= this.end) {
+        this.stream.pause();
+      }
+      this.notify?.();
+    });
+    this.stream.on('end', () => {
+      this.ended = true;
+      this.notify?.();
+    });
+  }
+
+  private discardBefore(position: number) {
+    while (this.chunks.length && this.start < position) {
+      const chunk = this.chunks[0];
+      const offset = position - this.start;
+      if (offset >= chunk.length) {
+        this.chunks.shift();
+        this.start += chunk.length;
+        this.buffered -= chunk.length;
+      } else {
+        this.chunks[0] = chunk.subarray(offset);
+        this.start += offset;
+        this.buffered -= offset;
+      }
+    }
+  }
+
+  async read(position: number, length: number): Promise<Buffer> {
+    if (position < this.position) {
+      throw new Error('The gzip archive can only be read forward');
+    }
+    this.position = position;
+    this.end = position + length;
+    this.discardBefore(position);
+    while (this.start + this.buffered < this.end && !this.ended) {
+      if (this.error) {
+        throw this.error;
+      }
+      await new Promise<void>((resolve) => {
+        this.notify = resolve;
+        this.stream.resume();
+      });
+      this.notify = undefined;
+    }
+    if (this.error) {
+      throw this.error;
+    }
+    const data = Buffer.concat(this.chunks);
+    this.chunks = [data];
+    return data.subarray(position - this.start, this.end - this.start);
+  }
+
+  close() {
+    this.fileStream.destroy();
+    this.stream.destroy();
+  }
+}
+
+async function withArchiveReader<T>(
+  archivePath: string,
+  type: ArchiveType | undefined,
+  callback: (reader: ArchiveReader) => Promise<T>,
+): Promise<T> {
+  if (type === 'tgz') {
+    // the entries are read in the order of archive, so the stream is enough
+    const reader = new GzipForwardReader(archivePath);
+    try {
+      return await callback(reader);
+    } finally {
+      reader.close();
+    }
+  }
+  const { size } = await fsStat(archivePath);
+  const fd = await fsOpen(archivePath, 'r');
+  try {
+    return await callback({
+      size,
+      read: (position, length) => fsReadAt(fd, position, length),
+    });
+  } finally {
+    await fsClose(fd);
+  }
+}
+
+async function readZipEntries(
+  archivePath: string,
+  reader: ArchiveReader,
+): Promise<ArchiveEntry[]> {
+  const tailSize = Math.min(reader.size, 22 + 0xffff);
+  const end = parseZipEndOfCentralDirectory(
+    await reader.read(reader.size - tailSize, tailSize),
+  );
+  if (!end) {
+    throw new Error(`${archivePath} is not a valid zip file`);
+  }
+  const directory = await reader.read(end.offset, end.size);
+  return parseZipCentralDirectory(directory, end.count).map((entry) => ({
+    archivePath,
+    path: entry.name,
+    directory: entry.name.endsWith('/'),
+    size: entry.size,
+    data: {
+      offset: entry.localHeaderOffset,
+      compressedSize: entry.compressedSize,
+      method: entry.method,
+    },
+  }));
+}
+
+async function readTarEntries(
+  archivePath: string,
+  reader: ArchiveReader,
+): Promise<ArchiveEntry[]> {
+  const entries: ArchiveEntry[] = [];
+  // the long name from the GNU or pax extension header for the next entry
+  let longName: string | undefined;
+  let offset = 0;
+  while (offset + 512 <= reader.size) {
+    const block = await reader.read(offset, 512);
+    const header = block.length === 512 ? parseTarHeader(block) : undefined;
+    if (!header) {
+      break;
+    }
+    const dataOffset = offset + 512;
+    offset = dataOffset + Math.ceil(header.size / 512) * 512;
+    if (header.type === 'L') {
+      longName = (await reader.read(dataOffset, header.size))
+        .toString('utf8')
+        .replace(/\0+$/, '');
+    } else if (header.type === 'x') {
+      const pax = (await reader.read(dataOffset, header.size)).toString('utf8');
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(pax)?.[1] ?? longName;
+    } else if (['0', '7', '5'].includes(header.type)) {
+      // only the regular files and directories
+      entries.push({
+        archivePath,
+        path: longName ?? header.name,
+        directory: header.type === '5',
+        size: header.type === '5' ? 0 : header.size,
+        data: {
+          offset: dataOffset,
+          compressedSize: header.size,
+          method: 0,
+        },
+      });
+      longName = undefined;
+    } else {
+      longName = undefined;
+    }
+  }
+  return entries;
+}
+
+/**
+ * The entry path must stay inside the extracted directory on every platform,
+ * so backslashes are rejected as well as `..` segments
+ */
+function isSafeEntryPath(entryPath: string) {
+  return (
+    !!entryPath &&
+    !entryPath.includes('\\') &&
+    !entryPath.split('/').includes('..')
+  );
+}
+
+const entriesCache = new Map<
+  string,
+  { mtimeMs: number; entries: ArchiveEntry[] }
+>();
+
+/**
+ * Read all entries of archive, the entries escaping the archive are ignored
+ *
+ * @param type the type detected by content, default by the extension
+ */
+export async function readArchiveEntries(
+  archivePath: string,
+  type = getArchiveType(archivePath),
+): Promise<ArchiveEntry[]> {
+  const { mtimeMs } = await fsStat(archivePath);
+  const cached = entriesCache.get(archivePath);
+  if (cached?.mtimeMs === mtimeMs) {
+    return cached.entries;
+  }
+  const entries = (
+    await withArchiveReader(archivePath, type, (reader) =>
+      type === 'zip'
+        ? readZipEntries(archivePath, reader)
+        : readTarEntries(archivePath, reader),
+    )
+  )
+    .map((entry) => ({
+      ...entry,
+      path: entry.path.replace(/^(\.?\/)+/, '').replace(/\/+$/, ''),
+    }))
+    .filter((entry) => isSafeEntryPath(entry.path));
+  entriesCache.set(archivePath, { mtimeMs, entries });
+  return entries;
+}
+
+/**
+ * List the direct children of directory in the archive,
+ * empty dirPath means the top level of archive
+ */
+export function listArchiveChildren(
+  entries: ArchiveEntry[],
+  dirPath: string,
+): ArchiveEntry[] {
+  const prefix = dirPath ? `${dirPath}/` : '';
+  const children = new Map<string, ArchiveEntry>();
+  for (const entry of entries) {
+    if (!entry.path.startsWith(prefix)) {
+      continue;
+    }
+    const relativePath = entry.path.slice(prefix.length);
+    const index = relativePath.indexOf('/');
+    if (index === -1) {
+      children.set(relativePath, entry);
+      continue;
+    }
+    const name = relativePath.slice(0, index);
+    if (!children.has(name)) {
+      children.set(name, {
+        archivePath: entry.archivePath,
+        path: prefix + name,
+        directory: true,
+        size: 0,
+      });
+    }
+  }
+  return [...children.values()];
+}
+
+async function readEntryContent(
+  reader: ArchiveReader,
+  entry: ArchiveEntry,
+): Promise<Buffer> {
+  const { data } = entry;
+  if (!data) {
+    return Buffer.alloc(0);
+  }
+  if (getArchiveType(entry.archivePath) !== 'zip') {
+    return await reader.read(data.offset, data.compressedSize);
+  }
+  const headerSize = parseZipLocalHeaderSize(
+    await reader.read(data.offset, 30),
+  );
+  if (headerSize === undefined) {
+    throw new Error(`Invalid zip local header of ${entry.path}`);
+  }
+  const content = await reader.read(
+    data.offset + headerSize,
+    data.compressedSize,
+  );
+  if (data.method === 0) {
+    return content;
+  } else if (data.method === 8) {
+    return await inflateRaw(content);
+  }
+  throw new Error(
+    `Unsupported zip compression method(${data.method}) of ${entry.path}`,
+  );
+}
+
+/**
+ * Extract the file or directory entry of archive to the target path
+ */
+export async function extractArchiveEntry(
+  entry: ArchiveEntry,
+  targetPath: string,
+) {
+  const entries = entry.directory
+    ? (await readArchiveEntries(entry.archivePath)).filter((child) =>
+        child.path.startsWith(`${entry.path}/`),
+      )
+    : [entry];
+  const type = getArchiveType(entry.archivePath);
+  await withArchiveReader(entry.archivePath, type, async (reader) => {
+    if (entry.directory) {
+      await fsMkdirp(targetPath);
+    }
+    for (const child of entries) {
+      const childPath =
+        child === entry
+          ? targetPath
+          : pathLib.join(
+              targetPath,
+              ...child.path.slice(entry.path.length + 1).split('/'),
+            );
+      if (child.directory) {
+        await fsMkdirp(childPath);
+      } else {
+        await fsMkdirp(pathLib.dirname(childPath));
+        await fsWriteFile(childPath, await readEntryContent(reader, child));
+      }
+    }
+  });
+}
+
+/**
+ * Extract the entry of archive to a temporary path and return it
+ */
+export async function extractArchiveEntryToTemp(
+  entry: ArchiveEntry,
+): Promise<string> {
+  const tmpPath = pathLib.join(
+    os.tmpdir(),
+    'coc-explorer-archive',
+    // keyed by the full path, the archives with the same name do not collide
+    `${pathLib.basename(entry.archivePath)}-${crypto
+      .createHash('md5')
+      .update(entry.archivePath)
+      .digest('hex')
+      .slice(0, 8)}`,
+    ...entry.path.split('/'),
+  );
+  await extractArchiveEntry(entry, tmpPath);
+  return tmpPath;
+}
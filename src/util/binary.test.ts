@@ -0,0 +1,124 @@
+import {
+  guessMimeType,
+  parseImageDimensions,
+  parseTarHeader,
+  parseZipCentralDirectory,
+  parseZipEndOfCentralDirectory,
+  parseZipLocalHeaderSize,
+} from './binary';
+
+test('guessMimeType', () => {
+  expect(
+    guessMimeType(
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    ),
+  ).toBe('image/png');
+  expect(guessMimeType(Buffer.from('RIFF\0\0\0\0WEBPVP8X'))).toBe('image/webp');
+  expect(guessMimeType(Buffer.from('RIFF\0\0\0\0WAVEfmt '))).toBe('audio/wav');
+  expect(guessMimeType(Buffer.from('hello'))).toBe(undefined);
+});
+
+test('parseImageDimensions', () => {
+  const png = Buffer.alloc(24);
+  png.writeUInt32BE(800, 16);
+  png.writeUInt32BE(600, 20);
+  expect(parseImageDimensions('image/png', png)).toEqual({
+    width: 800,
+    height: 600,
+  });
+
+  const gif = Buffer.from('GIF89a\x20\x00\x10\x00', 'latin1');
+  expect(parseImageDimensions('image/gif', gif)).toEqual({
+    width: 32,
+    height: 16,
+  });
+
+  // SOI, APP0 with 16 bytes length, SOF0
+  const jpeg = Buffer.concat([
+    Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]),
+    Buffer.alloc(14),
+    Buffer.from([0xff, 0xc0, 0x00, 0x11, 0x08, 0x01, 0xe0, 0x02, 0x80]),
+  ]);
+  expect(parseImageDimensions('image/jpeg', jpeg)).toEqual({
+    width: 640,
+    height: 480,
+  });
+
+  const webp = Buffer.alloc(30);
+  webp.write('RIFF', 0, 'latin1');
+  webp.write('WEBPVP8X', 8, 'latin1');
+  webp.writeUIntLE(99, 24, 3);
+  webp.writeUIntLE(49, 27, 3);
+  expect(parseImageDimensions('image/webp', webp)).toEqual({
+    width: 100,
+    height: 50,
+  });
+
+  expect(parseImageDimensions('image/png', Buffer.alloc(8))).toBe(undefined);
+});
+
+test('parseZipCentralDirectory', () => {
+  const entry = (name: string, size: number, offset: number) => {
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(8, 10);
+    header.writeUInt32LE(size / 2, 20);
+    header.writeUInt32LE(size, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+    return Buffer.concat([header, Buffer.from(name)]);
+  };
+  const directory = Buffer.concat([
+    entry('a.txt', 10, 0),
+    entry('dir/b.txt', 20, 40),
+  ]);
+  const entries = [
+    {
+      name: 'a.txt',
+      method: 8,
+      compressedSize: 5,
+      size: 10,
+      localHeaderOffset: 0,
+    },
+    {
+      name: 'dir/b.txt',
+      method: 8,
+      compressedSize: 10,
+      size: 20,
+      localHeaderOffset: 40,
+    },
+  ];
+  expect(parseZipCentralDirectory(directory, 10)).toEqual(entries);
+  expect(parseZipCentralDirectory(directory, 1)).toEqual([entries[0]]);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(5, 26);
+  local.writeUInt16LE(4, 28);
+  expect(parseZipLocalHeaderSize(local)).toBe(39);
+  expect(parseZipLocalHeaderSize(Buffer.alloc(30))).toBe(undefined);
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(2, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(100, 16);
+  expect(
+    parseZipEndOfCentralDirectory(Buffer.concat([Buffer.alloc(5), end])),
+  ).toEqual({ count: 2, size: directory.length, offset: 100 });
+});
+
+test('parseTarHeader', () => {
+  const block = Buffer.alloc(512);
+  block.write('file.txt', 0);
+  block.write('00000000012\0', 124);
+  block.write('0', 156);
+  block.write('ustar', 257, 'latin1');
+  block.write('prefix', 345);
+  expect(parseTarHeader(block)).toEqual({
+    name: 'prefix/file.txt',
+    size: 10,
+    type: '0',
+  });
+  expect(parseTarHeader(Buffer.alloc(512))).toBe(undefined);
+});
@@ -0,0 +1,293 @@
+type MagicSignature = [offset: number, bytes: string | number[]];
+
+/**
+ * Magic bytes of the common binary formats, all signatures must be matched
+ */
+const magicTypes: { mimeType: string; signatures: MagicSignature[] }[] = [
+  {
+    mimeType: 'image/png',
+    signatures: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]],
+  },
+  { mimeType: 'image/jpeg', signatures: [[0, [0xff, 0xd8, 0xff]]] },
+  { mimeType: 'image/gif', signatures: [[0, 'GIF87a']] },
+  { mimeType: 'image/gif', signatures: [[0, 'GIF89a']] },
+  {
+    mimeType: 'image/webp',
+    signatures: [
+      [0, 'RIFF'],
+      [8, 'WEBP'],
+    ],
+  },
+  { mimeType: 'image/bmp', signatures: [[0, 'BM']] },
+  { mimeType: 'image/x-icon', signatures: [[0, [0x00, 0x00, 0x01, 0x00]]] },
+  { mimeType: 'application/pdf', signatures: [[0, '%PDF-']] },
+  { mimeType: 'application/zip', signatures: [[0, [0x50, 0x4b, 0x03, 0x04]]] },
+  { mimeType: 'application/zip', signatures: [[0, [0x50, 0x4b, 0x05, 0x06]]] },
+  { mimeType: 'application/x-tar', signatures: [[257, 'ustar']] },
+  { mimeType: 'application/gzip', signatures: [[0, [0x1f, 0x8b]]] },
+  { mimeType: 'application/x-bzip2', signatures: [[0, 'BZh']] },
+  {
+    mimeType: 'application/x-xz',
+    signatures: [[0, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00]]],
+  },
+  {
+    mimeType: 'application/x-7z-compressed',
+    signatures: [[0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]]],
+  },
+  {
+    mimeType: 'application/vnd.rar',
+    signatures: [[0, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07]]],
+  },
+  {
+    mimeType: 'application/x-elf',
+    signatures: [[0, [0x7f, 0x45, 0x4c, 0x46]]],
+  },
+  {
+    mimeType: 'application/x-mach-binary',
+    signatures: [[0, [0xcf, 0xfa, 0xed, 0xfe]]],
+  },
+  {
+    mimeType: 'application/x-mach-binary',
+    signatures: [[0, [0xce, 0xfa, 0xed, 0xfe]]],
+  },
+  {
+    mimeType: 'application/vnd.microsoft.portable-executable',
+    signatures: [[0, 'MZ']],
+  },
+  { mimeType: 'application/wasm', signatures: [[0, [0x00, 0x61, 0x73, 0x6d]]] },
+  {
+    mimeType: 'application/java-vm',
+    signatures: [[0, [0xca, 0xfe, 0xba, 0xbe]]],
+  },
+  { mimeType: 'application/vnd.sqlite3', signatures: [[0, 'SQLite format 3']] },
+  { mimeType: 'font/woff', signatures: [[0, 'wOFF']] },
+  { mimeType: 'font/woff2', signatures: [[0, 'wOF2']] },
+  { mimeType: 'audio/mpeg', signatures: [[0, 'ID3']] },
+  { mimeType: 'audio/ogg', signatures: [[0, 'OggS']] },
+  { mimeType: 'audio/flac', signatures: [[0, 'fLaC']] },
+  {
+    mimeType: 'audio/wav',
+    signatures: [
+      [0, 'RIFF'],
+      [8, 'WAVE'],
+    ],
+  },
+  { mimeType: 'video/mp4', signatures: [[4, 'ftyp']] },
+];
+
+function matchSignature(header: Buffer, [offset, bytes]: MagicSignature) {
+  const expected =
+    typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : bytes;
+  if (header.length < offset + expected.length) {
+    return false;
+  }
+  for (let i = 0; i < expected.length; i++) {
+    if (header[offset + i] !== expected[i]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Guess the MIME type from the magic bytes of the file header
+ */
+export function guessMimeType(header: Buffer): string | undefined {
+  return magicTypes.find((type) =>
+    type.signatures.every((signature) => matchSignature(header, signature)),
+  )?.mimeType;
+}
+
+export type ImageDimensions = { width: number; height: number };
+
+function jpegDimensions(header: Buffer): ImageDimensions | undefined {
+  let offset = 2;
+  while (offset + 9 <= header.length) {
+    if (header[offset] !== 0xff) {
+      return;
+    }
+    const marker = header[offset + 1];
+    if (marker === 0xff) {
+      // fill byte
+      offset += 1;
+      continue;
+    }
+    if (
+      marker >= 0xc0 &&
+      marker <= 0xcf &&
+      ![0xc4, 0xc8, 0xcc].includes(marker)
+    ) {
+      return {
+        height: header.readUInt16BE(offset + 5),
+        width: header.readUInt16BE(offset + 7),
+      };
+    }
+    if ((marker >= 0xd0 && marker <= 0xd9) || marker === 0x01) {
+      // markers without length
+      offset += 2;
+      continue;
+    }
+    offset += 2 + header.readUInt16BE(offset + 2);
+  }
+}
+
+function webpDimensions(header: Buffer): ImageDimensions | undefined {
+  if (header.length < 30) {
+    return;
+  }
+  const chunk = header.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ') {
+    return {
+      width: header.readUInt16LE(26) & 0x3fff,
+      height: header.readUInt16LE(28) & 0x3fff,
+    };
+  } else if (chunk === 'VP8L') {
+    const [b0, b1, b2, b3] = header.subarray(21, 25);
+    return {
+      width: 1 + (((b1 & 0x3f) << 8) | b0),
+      height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+    };
+  } else if (chunk === 'VP8X') {
+    return {
+      width: 1 + header.readUIntLE(24, 3),
+      height: 1 + header.readUIntLE(27, 3),
+    };
+  }
+}
+
+/**
+ * Parse the dimensions from the header of PNG, JPEG, GIF, WebP and BMP
+ */
+export function parseImageDimensions(
+  mimeType: string,
+  header: Buffer,
+): ImageDimensions | undefined {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return {
+          width: header.readUInt32BE(16),
+          height: header.readUInt32BE(20),
+        };
+      case 'image/gif':
+        return {
+          width: header.readUInt16LE(6),
+          height: header.readUInt16LE(8),
+        };
+      case 'image/bmp':
+        return {
+          width: header.readInt32LE(18),
+          height: Math.abs(header.readInt32LE(22)),
+        };
+      case 'image/jpeg':
+        return jpegDimensions(header);
+      case 'image/webp':
+        return webpDimensions(header);
+    }
+  } catch {
+    // the header is truncated
+    return undefined;
+  }
+}
+
+export type ZipCentralEntry = {
+  name: string;
+  /**
+   * 0 means stored, 8 means deflated
+   */
+  method: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+};
+
+/**
+ * Parse the entries from the zip central directory
+ */
+export function parseZipCentralDirectory(
+  directory: Buffer,
+  limit: number,
+): ZipCentralEntry[] {
+  const entries: ZipCentralEntry[] = [];
+  let offset = 0;
+  while (
+    entries.length < limit &&
+    offset + 46 <= directory.length &&
+    directory.readUInt32LE(offset) === 0x02014b50
+  ) {
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    entries.push({
+      name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize: directory.readUInt32LE(offset + 20),
+      size: directory.readUInt32LE(offset + 24),
+      localHeaderOffset: directory.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Return the data offset of the zip local file header relative to the header
+ */
+export function parseZipLocalHeaderSize(header: Buffer): number | undefined {
+  if (header.length < 30 || header.readUInt32LE(0) !== 0x04034b50) {
+    return;
+  }
+  return 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+}
+
+/**
+ * Find the end of central directory record of zip,
+ * return the count, size and offset of the central directory
+ */
+export function parseZipEndOfCentralDirectory(
+  tail: Buffer,
+): { count: number; size: number; offset: number } | undefined {
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === 0x06054b50) {
+      return {
+        count: tail.readUInt16LE(i + 10),
+        size: tail.readUInt32LE(i + 12),
+        offset: tail.readUInt32LE(i + 16),
+      };
+    }
+  }
+}
+
+export type TarHeader = { name: string; size: number; type: string };
+
+function readTarString(block: Buffer, start: number, length: number) {
+  const end = block.indexOf(0, start);
+  return block.toString(
+    'utf8',
+    start,
+    end === -1 || end > start + length ? start + length : end,
+  );
+}
+
+/**
+ * Parse a 512 bytes tar header block, undefined means the end of archive
+ */
+export function parseTarHeader(block: Buffer): TarHeader | undefined {
+  if (block.length < 512 || block[0] === 0) {
+    return;
+  }
+  const name = readTarString(block, 0, 100);
+  const prefix =
+    block.toString('latin1', 257, 262) === 'ustar'
+      ? readTarString(block, 345, 155)
+      : '';
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size:
+      block[124] & 0x80
+        ? // base-256 encoding for the large size
+          block.readUIntBE(130, 6)
+        : parseInt(readTarString(block, 124, 12).trim() || '0', 8),
+    type: block[156] ? String.fromCharCode(block[156]) : '0',
+  };
+}
@@ -30,6 +30,44 @@ export const execCmd = (
   });
 };
 
+/**
+ * Spawn a child process and handle the output in chunks,
+ * the process is killed once the handler returns true
+ */
+export const execCmdStream = (
+  name: string,
+  args: string[],
+  onData: (data: string) => boolean,
+  options?: SpawnOptionsWithoutStdio,
+) => {
+  const streams = spawn(name, args, options);
+  // decode by stream to keep the multibyte characters across chunks
+  streams.stdout.setEncoding('utf8');
+
+  return new Promise<void>((resolve, reject) => {
+    let finished = false;
+    streams.stdout.on('data', (data: string) => {
+      if (finished) {
+        return;
+      }
+      if (onData(data)) {
+        finished = true;
+        streams.kill();
+        resolve();
+      }
+    });
+    streams.on('error', (error) => {
+      reject(error);
+    });
+    streams.stdout.on('error', (error) => {
+      reject(error);
+    });
+    streams.stdout.on('end', () => {
+      resolve();
+    });
+  });
+};
+
 /**
  * Execute a command line.
  */
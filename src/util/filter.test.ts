@@ -0,0 +1,33 @@
+import { createFilterMatcher } from './filter';
+
+test('fuzzy', () => {
+  const matcher = createFilterMatcher('fuzzy', 'fsrc');
+  expect(matcher('fileSource.ts')).toEqual([0, 4, 7, 8]);
+  expect(matcher('fileActions.ts')).toEqual(undefined);
+
+  // smart case
+  expect(createFilterMatcher('fuzzy', 'fS')('fileSource.ts')).toEqual([0, 4]);
+  expect(createFilterMatcher('fuzzy', 'fS')('filesource.ts')).toEqual(
+    undefined,
+  );
+});
+
+test('glob', () => {
+  const matcher = createFilterMatcher('glob', '*.ts');
+  expect(matcher('index.ts')).toEqual([5, 6, 7]);
+  expect(matcher('index.tsx')).toEqual(undefined);
+
+  expect(createFilterMatcher('glob', 'a?c')('abc')).toEqual([0, 2]);
+  expect(createFilterMatcher('glob', '[!a]*')('abc')).toEqual(undefined);
+  expect(createFilterMatcher('glob', '[!a]*')('bc')).toEqual([]);
+  expect(createFilterMatcher('glob', 'a.(b)')('a.(b)')).toEqual([
+    0, 1, 2, 3, 4,
+  ]);
+});
+
+test('regex', () => {
+  const matcher = createFilterMatcher('regex', 'test\\.');
+  expect(matcher('file.test.ts')).toEqual([5, 6, 7, 8, 9]);
+  expect(matcher('file.ts')).toEqual(undefined);
+  expect(() => createFilterMatcher('regex', '(')).toThrow();
+});
@@ -0,0 +1,127 @@
+import { FilterType } from '../types';
+
+/**
+ * Return the indexes of the matched characters, or undefined when not matched
+ */
+export type FilterMatcher = (text: string) => number[] | undefined;
+
+function range(start: number, end: number) {
+  return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+function escapeRegex(str: string) {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Ignore case unless the pattern contains uppercase characters
+ */
+function isSmartIgnoreCase(pattern: string) {
+  return pattern === pattern.toLowerCase();
+}
+
+function fuzzyMatcher(pattern: string): FilterMatcher {
+  const ignoreCase = isSmartIgnoreCase(pattern);
+  const chars = ignoreCase ? pattern.toLowerCase() : pattern;
+  return (text) => {
+    const target = ignoreCase ? text.toLowerCase() : text;
+    const indexes: number[] = [];
+    let start = 0;
+    for (const char of chars) {
+      const idx = target.indexOf(char, start);
+      if (idx === -1) {
+        return;
+      }
+      indexes.push(idx);
+      start = idx + 1;
+    }
+    return indexes;
+  };
+}
+
+function regexMatcher(regex: RegExp): FilterMatcher {
+  return (text) => {
+    const m = regex.exec(text);
+    if (!m) {
+      return;
+    }
+    return range(m.index, m.index + m[0].length);
+  };
+}
+
+/**
+ * Convert a glob to a regex, every literal and wildcard part is captured
+ * so that the literal characters can be located
+ */
+function globMatcher(pattern: string): FilterMatcher {
+  const parts: { source: string; literal: boolean }[] = [];
+  let literal = '';
+  const flushLiteral = () => {
+    if (literal) {
+      parts.push({ source: escapeRegex(literal), literal: true });
+      literal = '';
+    }
+  };
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      flushLiteral();
+      parts.push({ source: '.*', literal: false });
+    } else if (char === '?') {
+      flushLiteral();
+      parts.push({ source: '.', literal: false });
+    } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+      flushLiteral();
+      const end = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, end).replace(/^!/, '^');
+      parts.push({
+        source: `[${body.replace(/\\/g, '\\\\')}]`,
+        literal: false,
+      });
+      i = end;
+    } else {
+      literal += char;
+    }
+  }
+  flushLiteral();
+
+  const regex = new RegExp(
+    `^${parts.map((part) => `(${part.source})`).join('')}$`,
+    isSmartIgnoreCase(pattern) ? 'i' : '',
+  );
+  return (text) => {
+    const m = regex.exec(text);
+    if (!m) {
+      return;
+    }
+    const indexes: number[] = [];
+    let start = 0;
+    parts.forEach((part, i) => {
+      const end = start + m[i + 1].length;
+      if (part.literal) {
+        indexes.push(...range(start, end));
+      }
+      start = end;
+    });
+    return indexes;
+  };
+}
+
+/**
+ * Create a matcher for the filter pattern, throw an error for invalid regex
+ */
+export function createFilterMatcher(
+  type: FilterType,
+  pattern: string,
+): FilterMatcher {
+  switch (type) {
+    case 'fuzzy':
+      return fuzzyMatcher(pattern);
+    case 'glob':
+      return globMatcher(pattern);
+    case 'regex':
+      return regexMatcher(
+        new RegExp(pattern, isSmartIgnoreCase(pattern) ? 'i' : ''),
+      );
+  }
+}
@@ -0,0 +1,46 @@
+import os from 'os';
+import pathLib from 'path';
+import { fsMkdirp, fsRimraf, fsWriteFile, overwritePrompt } from '.';
+import { input, prompt } from './ui';
+
+jest.mock('./ui', () => ({
+  prompt: jest.fn(),
+  input: jest.fn(),
+}));
+
+const root = pathLib.join(os.tmpdir(), `coc-explorer-fs-${process.pid}`);
+const archivePath = pathLib.join(root, 'a.zip');
+const targetDir = pathLib.join(root, 'target');
+
+beforeAll(async () => {
+  await fsMkdirp(targetDir);
+  await fsWriteFile(archivePath, '');
+  await fsWriteFile(pathLib.join(targetDir, 'foo'), 'existing');
+});
+
+afterAll(async () => {
+  await fsRimraf(root);
+});
+
+test('overwritePrompt pastes an archive entry onto an existing target', async () => {
+  const source = pathLib.join(archivePath, 'foo');
+  const target = pathLib.join(targetDir, 'foo');
+  const renamedTarget = pathLib.join(targetDir, 'foo-1');
+  (prompt as jest.Mock).mockResolvedValue('rename');
+  (input as jest.Mock).mockResolvedValue(renamedTarget);
+  const action = jest.fn();
+
+  await overwritePrompt(
+    'paste',
+    [{ source, target, sourceDirectory: true }],
+    action,
+  );
+
+  expect(prompt).toHaveBeenCalledWith(`Paste: ${target} already exists.`, [
+    'skip',
+    'rename',
+    'force replace',
+    'quit',
+  ]);
+  expect(action).toHaveBeenCalledWith(source, renamedTarget);
+});
@@ -13,6 +13,16 @@ import minimatch from 'minimatch';
 
 export const fsOpen = promisify(fs.open);
 export const fsClose = promisify(fs.close);
+export const fsRead = promisify(fs.read);
+export const fsReadAt = async (
+  fd: number,
+  position: number,
+  length: number,
+) => {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fsRead(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+};
 export const fsTouch = async (path: string) =>
   await fsClose(await fsOpen(path, 'w'));
 export const fsMkdirp = makeDir;
@@ -31,6 +41,8 @@ export const fsStat = promisify(fs.stat);
 export const fsLstat = promisify(fs.lstat);
 export const fsCopyFile = promisify(fs.copyFile);
 export const fsRename = promisify(fs.rename);
+export const fsChmod = promisify(fs.chmod);
+export const fsChown = promisify(fs.chown);
 export const fsRimraf = promisify(rimraf);
 
 export const fsTrash = async (paths: string | string[]) => {
@@ -56,10 +68,42 @@ export async function fsCopyFileRecursive(
   }
 }
 
+/**
+ * Call the callback with the path and all entries inside it,
+ * the symbolic links inside are skipped like `chmod -R`
+ */
+export async function fsWalk(
+  path: string,
+  callback: (path: string, stat: fs.Stats) => Promise<void>,
+) {
+  const stat = await fsStat(path);
+  await callback(path, stat);
+  if (!stat.isDirectory()) {
+    return;
+  }
+  for (const filename of await fsReaddir(path)) {
+    const childPath = pathLib.join(path, filename);
+    if ((await fsLstat(childPath)).isSymbolicLink()) {
+      continue;
+    }
+    await fsWalk(childPath, callback);
+  }
+}
+
+/**
+ * Called before the existing target is moved to trash to be replaced
+ */
+export type OnTrashTarget = (
+  target: string,
+  directory: boolean,
+  source: string | undefined,
+) => void;
+
 export async function fsMergeDirectory(
   sourceDir: string,
   targetDir: string,
   action: (source: string, target: string) => Promise<void>,
+  onTrash?: OnTrashTarget,
 ) {
   const filenames = await fsReaddir(sourceDir);
   for (const filename of filenames) {
@@ -69,8 +113,9 @@ export async function fsMergeDirectory(
       const sourceLstat = await fsLstat(sourcePath);
       const targetLstat = await fsLstat(targetPath);
       if (sourceLstat.isDirectory() && targetLstat.isDirectory()) {
-        await fsMergeDirectory(sourcePath, targetPath, action);
+        await fsMergeDirectory(sourcePath, targetPath, action, onTrash);
       } else {
+        onTrash?.(targetPath, targetLstat.isDirectory(), sourcePath);
         await fsTrash(targetPath);
         await action(sourcePath, targetPath);
       }
@@ -82,8 +127,17 @@ export async function fsMergeDirectory(
 
 export async function overwritePrompt<S extends string | undefined>(
   promptText: string,
-  paths: { source: S; target: string }[],
+  paths: {
+    source: S;
+    target: string;
+    /**
+     * Whether the source is a directory, given for the source not in the
+     * filesystem (e.g. the entry of archive) that can not be lstat or merged
+     */
+    sourceDirectory?: boolean;
+  }[],
   action: (source: S, target: string) => Promise<void>,
+  onTrash?: OnTrashTarget,
 ) {
   const finalAction = async (source: string | undefined, target: string) => {
     await fsMkdirp(pathLib.dirname(target));
@@ -92,14 +146,17 @@ export async function overwritePrompt<S extends string | undefined>(
   for (let i = 0, len = paths.length; i < len; i++) {
     const sourcePath = paths[i].source;
     const targetPath = paths[i].target;
+    const virtualSource = paths[i].sourceDirectory !== undefined;
 
     if (!(await fsExists(targetPath))) {
       await finalAction(sourcePath, targetPath);
       continue;
     }
 
-    const sourceLstat =
-      typeof sourcePath === 'string' ? await fsLstat(sourcePath) : undefined;
+    const sourceDirectory =
+      paths[i].sourceDirectory ??
+      (typeof sourcePath === 'string' &&
+        (await fsLstat(sourcePath)).isDirectory());
     const targetLstat = await fsLstat(targetPath);
 
     const rename = async function () {
@@ -115,6 +172,7 @@ export async function overwritePrompt<S extends string | undefined>(
       return finalAction(sourcePath, newTargetPath);
     };
     const replace = async function () {
+      onTrash?.(targetPath, targetLstat.isDirectory(), sourcePath);
       await fsTrash(targetPath);
       return finalAction(sourcePath, targetPath);
     };
@@ -142,17 +200,18 @@ export async function overwritePrompt<S extends string | undefined>(
       }
     };
 
-    if (sourcePath && sourceLstat?.isDirectory()) {
+    if (sourcePath && sourceDirectory && !virtualSource) {
       if (targetLstat.isDirectory()) {
         await prompt_({
-          merge: () => fsMergeDirectory(sourcePath, targetPath, finalAction),
+          merge: () =>
+            fsMergeDirectory(sourcePath, targetPath, finalAction, onTrash),
           'one by one': async () => {
             const files = await fsReaddir(sourcePath);
             const paths = files.map((source) => ({
               source: source as S,
               target: pathLib.join(targetPath, pathLib.basename(source)),
             }));
-            await overwritePrompt(promptText, paths, action);
+            await overwritePrompt(promptText, paths, action, onTrash);
           },
         });
       } else {
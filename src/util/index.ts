@@ -15,5 +15,12 @@ export * from './uri';
 export * from './color';
 export * from './rx';
 export * from './object';
+export * from './filter';
+export * from './binary';
+export * from './metadata';
+export * from './archive';
+export * from './jsonFileStore';
+export * from './permission';
+export * from './owner';
 
 export const logger = new HelperLogger('explorer');
@@ -0,0 +1,75 @@
+import pathLib from 'path';
+import { fsMkdirp, fsReadFile, fsWriteFile } from './fs';
+import { debounceFn, DisposableFn } from './rx';
+
+/**
+ * The data persisted in a JSON file, loaded on the first access
+ * and written with debounce after changes
+ */
+export class JsonFileStore<T extends object> {
+  private data?: Promise<T>;
+  private writeDebounce: DisposableFn<() => void>;
+
+  constructor(
+    protected readonly filepath: string,
+    options: {
+      writeDelay: number;
+      /**
+       * The indent of written JSON, undefined means compact
+       */
+      indent?: number;
+    },
+  ) {
+    this.writeDebounce = debounceFn(options.writeDelay, async () => {
+      const data = await this.getData();
+      await fsMkdirp(pathLib.dirname(this.filepath));
+      await fsWriteFile(
+        this.filepath,
+        JSON.stringify(data, null, options.indent),
+      );
+    });
+  }
+
+  private async loadData(): Promise<T> {
+    try {
+      const content = await fsReadFile(this.filepath, { encoding: 'utf8' });
+      return JSON.parse(content) as T;
+    } catch {
+      return {} as T;
+    }
+  }
+
+  protected getData() {
+    if (!this.data) {
+      this.data = this.loadData();
+    }
+    return this.data;
+  }
+
+  /**
+   * Write the data to file after the changes
+   */
+  protected scheduleWrite() {
+    this.writeDebounce();
+  }
+}
+
+const stores = new Map<string, JsonFileStore<any>>();
+
+/**
+ * Get the store of the file in the storage directory of extension,
+ * the store is shared by all explorers
+ */
+export function getJsonFileStore<S extends JsonFileStore<any>>(
+  storagePath: string,
+  filename: string,
+  create: (filepath: string) => S,
+): S {
+  const filepath = pathLib.join(storagePath, filename);
+  let store = stores.get(filepath) as S | undefined;
+  if (!store) {
+    store = create(filepath);
+    stores.set(filepath, store);
+  }
+  return store;
+}
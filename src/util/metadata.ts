@@ -0,0 +1,76 @@
+import fs from 'fs';
+import { guessMimeType, ImageDimensions, parseImageDimensions } from './binary';
+import { ArchiveType, readArchiveEntries } from './archive';
+import { fsClose, fsOpen, fsReadAt, fsStat } from './fs';
+import { loadOwnerNames } from './owner';
+
+export interface FileMetadata {
+  stat: fs.Stats;
+  owner: string;
+  group: string;
+  mimeType?: string;
+  dimensions?: ImageDimensions;
+  entries?: {
+    /**
+     * undefined means the count is unknown
+     */
+    total?: number;
+    names: string[];
+  };
+}
+
+async function readEntries(
+  fullpath: string,
+  type: ArchiveType,
+  limit: number,
+): Promise<FileMetadata['entries']> {
+  try {
+    const entries = await readArchiveEntries(fullpath, type);
+    return {
+      total: entries.length,
+      names: entries.slice(0, limit).map((entry) => entry.path),
+    };
+  } catch {
+    // the archive is broken
+    return undefined;
+  }
+}
+
+/**
+ * Read the metadata of file without any external tools
+ */
+export async function readFileMetadata(
+  fullpath: string,
+  { entriesLimit = 20 }: { entriesLimit?: number } = {},
+): Promise<FileMetadata> {
+  const stat = await fsStat(fullpath);
+  const { users, groups } = await loadOwnerNames();
+  const metadata: FileMetadata = {
+    stat,
+    owner: users.get(stat.uid) ?? stat.uid.toString(),
+    group: groups.get(stat.gid) ?? stat.gid.toString(),
+  };
+  if (!stat.isFile()) {
+    return metadata;
+  }
+
+  const fd = await fsOpen(fullpath, 'r');
+  try {
+    // 64KB is enough for the most JPEG headers
+    const header = await fsReadAt(fd, 0, 64 * 1024);
+    metadata.mimeType = guessMimeType(header);
+    if (!metadata.mimeType) {
+      return metadata;
+    }
+    if (metadata.mimeType.startsWith('image/')) {
+      metadata.dimensions = parseImageDimensions(metadata.mimeType, header);
+    } else if (metadata.mimeType === 'application/zip') {
+      metadata.entries = await readEntries(fullpath, 'zip', entriesLimit);
+    } else if (metadata.mimeType === 'application/x-tar') {
+      metadata.entries = await readEntries(fullpath, 'tar', entriesLimit);
+    }
+  } finally {
+    await fsClose(fd);
+  }
+  return metadata;
+}
@@ -0,0 +1,33 @@
+import { fsReadFile } from './fs';
+import { parseIdNames } from './permission';
+import { isWindows } from './platform';
+
+export interface OwnerNames {
+  users: Map<number, string>;
+  groups: Map<number, string>;
+}
+
+let ownerNames: Promise<OwnerNames> | undefined;
+
+/**
+ * Load the names of users and groups, the names are empty in windows
+ */
+export function loadOwnerNames() {
+  if (!ownerNames) {
+    const readNames = async (filepath: string) => {
+      if (isWindows) {
+        return new Map<number, string>();
+      }
+      try {
+        return parseIdNames(await fsReadFile(filepath, { encoding: 'utf8' }));
+      } catch {
+        return new Map<number, string>();
+      }
+    };
+    ownerNames = (async () => ({
+      users: await readNames('/etc/passwd'),
+      groups: await readNames('/etc/group'),
+    }))();
+  }
+  return ownerNames;
+}
@@ -0,0 +1,43 @@
+import { applyChmodMode, formatPermission, parseIdNames } from './permission';
+
+test('formatPermission', () => {
+  expect(formatPermission(0o40755)).toEqual('drwxr-xr-x');
+  expect(formatPermission(0o100644)).toEqual('-rw-r--r--');
+  expect(formatPermission(0o120777)).toEqual('lrwxrwxrwx');
+  expect(formatPermission(0o104755)).toEqual('-rwsr-xr-x');
+  expect(formatPermission(0o102644)).toEqual('-rw-r-Sr--');
+  expect(formatPermission(0o41777)).toEqual('drwxrwxrwt');
+});
+
+test('applyChmodMode', () => {
+  expect(applyChmodMode('755', 0o100644, false)).toEqual(0o755);
+  expect(applyChmodMode('0644', 0o100755, false)).toEqual(0o644);
+  expect(applyChmodMode('u+x', 0o100644, false)).toEqual(0o744);
+  expect(applyChmodMode('go-w', 0o100666, false)).toEqual(0o644);
+  expect(applyChmodMode('a=r', 0o100755, false)).toEqual(0o444);
+  expect(applyChmodMode('u=rwx,g=rx,o=', 0o100666, false)).toEqual(0o750);
+  expect(applyChmodMode('u+x-w', 0o100644, false)).toEqual(0o544);
+  expect(applyChmodMode('+x', 0o100644, false)).toEqual(0o755);
+  expect(applyChmodMode('+X', 0o100644, false)).toEqual(0o644);
+  expect(applyChmodMode('+X', 0o40644, true)).toEqual(0o755);
+  expect(applyChmodMode('u+s,o+t', 0o40755, true)).toEqual(0o5755);
+  expect(applyChmodMode('888', 0o100644, false)).toBeUndefined();
+  expect(applyChmodMode('z+x', 0o100644, false)).toBeUndefined();
+  expect(applyChmodMode('u', 0o100644, false)).toBeUndefined();
+});
+
+test('parseIdNames', () => {
+  const names = parseIdNames(
+    [
+      '# comment',
+      'root:x:0:0:root:/root:/bin/bash',
+      'user:x:1000:1000::/home/user:/bin/sh',
+      'broken',
+      '',
+    ].join('\n'),
+  );
+  expect([...names]).toEqual([
+    [0, 'root'],
+    [1000, 'user'],
+  ]);
+});
@@ -0,0 +1,115 @@
+const fileTypeChars: [type: number, char: string][] = [
+  [0o040000, 'd'],
+  [0o120000, 'l'],
+  [0o020000, 'c'],
+  [0o060000, 'b'],
+  [0o010000, 'p'],
+  [0o140000, 's'],
+];
+
+/**
+ * Format the mode of stat like `ls -l`, e.g. `drwxr-xr-x`
+ */
+export function formatPermission(mode: number) {
+  const fileType = mode & 0o170000;
+  const typeChar =
+    fileTypeChars.find(([type]) => type === fileType)?.[1] ?? '-';
+  const special = (x: boolean, set: boolean, char: string) =>
+    set ? (x ? char : char.toUpperCase()) : x ? 'x' : '-';
+  const triple = (shift: number, set: boolean, char: string) =>
+    ((mode >> shift) & 0o4 ? 'r' : '-') +
+    ((mode >> shift) & 0o2 ? 'w' : '-') +
+    special(!!((mode >> shift) & 0o1), set, char);
+  return (
+    typeChar +
+    triple(6, !!(mode & 0o4000), 's') +
+    triple(3, !!(mode & 0o2000), 's') +
+    triple(0, !!(mode & 0o1000), 't')
+  );
+}
+
+const whoShifts = { u: 6, g: 3, o: 0 };
+const whoSpecialBits = { u: 0o4000, g: 0o2000, o: 0o1000 };
+
+/**
+ * Apply the mode of chmod to the current mode,
+ * the mode can be octal (e.g. `755`) or symbolic (e.g. `u+x,go-w`),
+ * the symbolic mode without who means `a` and the umask is ignored
+ *
+ * @returns the new permission bits, undefined if the mode is invalid
+ */
+export function applyChmodMode(
+  expr: string,
+  mode: number,
+  directory: boolean,
+): number | undefined {
+  expr = expr.trim();
+  if (/^[0-7]{1,4}$/.test(expr)) {
+    return parseInt(expr, 8);
+  }
+  let result = mode & 0o7777;
+  for (const clause of expr.split(',')) {
+    const matched = /^([ugoa]*)((?:[-+=][rwxXst]*)+)$/.exec(clause);
+    if (!matched) {
+      return;
+    }
+    const whos = (matched[1].replace(/a/g, 'ugo') || 'ugo').split(
+      '',
+    ) as (keyof typeof whoShifts)[];
+    const opRegex = /([-+=])([rwxXst]*)/g;
+    let opMatched: RegExpExecArray | null;
+    while ((opMatched = opRegex.exec(matched[2]))) {
+      const [, op, perms] = opMatched;
+      let bits = 0;
+      for (const who of whos) {
+        const shift = whoShifts[who];
+        for (const perm of perms) {
+          if (perm === 'r') {
+            bits |= 0o4 << shift;
+          } else if (perm === 'w') {
+            bits |= 0o2 << shift;
+          } else if (perm === 'x') {
+            bits |= 0o1 << shift;
+          } else if (perm === 'X') {
+            // execute only for directories or files executable by anyone
+            if (directory || result & 0o111) {
+              bits |= 0o1 << shift;
+            }
+          } else if (perm === 's' && who !== 'o') {
+            bits |= whoSpecialBits[who];
+          } else if (perm === 't' && who === 'o') {
+            bits |= whoSpecialBits[who];
+          }
+        }
+      }
+      if (op === '+') {
+        result |= bits;
+      } else if (op === '-') {
+        result &= ~bits;
+      } else {
+        for (const who of whos) {
+          result &= ~((0o7 << whoShifts[who]) | whoSpecialBits[who]);
+        }
+        result |= bits;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Parse the id and name of `/etc/passwd` or `/etc/group`
+ */
+export function parseIdNames(content: string) {
+  const names = new Map<number, string>();
+  for (const line of content.split('\n')) {
+    if (line.startsWith('#')) {
+      continue;
+    }
+    const [name, , id] = line.split(':');
+    if (name && id && /^\d+$/.test(id) && !names.has(Number(id))) {
+      names.set(Number(id), name);
+    }
+  }
+  return names;
+}
@@ -1,4 +1,4 @@
-import { byteIndex, byteLength, splitCount } from './string';
+import { byteIndex, byteLength, renderTemplate, splitCount } from './string';
 
 test('byteIndex', () => {
   expect(byteIndex('aa', 1)).toBe(1);
@@ -28,3 +28,15 @@ test('splitCount', () => {
     'hello',
   ]);
 });
+
+test('renderTemplate', () => {
+  expect(
+    renderTemplate('tar czf ${name}.tgz ${paths} $HOME ${unknown}', {
+      name: 'a',
+      paths: 'a b',
+    }),
+  ).toBe('tar czf a.tgz a b $HOME ${unknown}');
+  expect(() =>
+    renderTemplate('rm -rf ${gitRoot}/build', { gitRoot: undefined }),
+  ).toThrow('placeholder ${gitRoot} has no value');
+});
@@ -30,3 +30,24 @@ export function isASCII(str: string) {
   // eslint-disable-next-line no-control-regex
   return /^[\x00-\xFF]*$/.test(str);
 }
+
+/**
+ * Replace the `${name}` placeholders by values, the unknown placeholders are kept
+ *
+ * @throws the known placeholder has no value, e.g. `${gitRoot}` outside a git repo
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string | undefined>,
+): string {
+  return template.replace(/\$\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!(name in values)) {
+      return placeholder;
+    }
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`placeholder ${placeholder} has no value`);
+    }
+    return value;
+  });
+}
@@ -1,3 +1,7 @@
+import fs from 'fs';
+import os from 'os';
+import pathLib from 'path';
+import { promisify } from 'util';
 import { config } from '../config';
 import { execCmdLine, shellescape, executable } from './cli';
 
@@ -78,3 +82,93 @@ class TrashTemplateCmd {
 }
 
 export const trashCmd = new TrashTemplateCmd();
+
+export interface TrashedFile {
+  /**
+   * Current location of the file inside the trash
+   */
+  path: string;
+  /**
+   * Location of the freedesktop.org `.trashinfo` file
+   */
+  infoPath: string;
+  deletionDate: Date;
+}
+
+const fsReaddir = promisify(fs.readdir);
+const fsReadFile = promisify(fs.readFile);
+
+function trashDirectories(fullpath: string) {
+  const dataHome =
+    process.env.XDG_DATA_HOME || pathLib.join(os.homedir(), '.local/share');
+  const dirs = [{ trash: pathLib.join(dataHome, 'Trash'), topdir: '/' }];
+  const uid = process.getuid?.();
+  if (uid === undefined) {
+    return dirs;
+  }
+  let dir = pathLib.dirname(fullpath);
+  let prevDir: string | undefined;
+  while (dir !== prevDir) {
+    dirs.push(
+      { trash: pathLib.join(dir, `.Trash-${uid}`), topdir: dir },
+      { trash: pathLib.join(dir, '.Trash', `${uid}`), topdir: dir },
+    );
+    prevDir = dir;
+    dir = pathLib.dirname(dir);
+  }
+  return dirs;
+}
+
+/**
+ * Locate the most recently trashed copy of fullpath,
+ * only supports the freedesktop.org trash specification
+ */
+export async function findTrashedFile(
+  fullpath: string,
+): Promise<TrashedFile | undefined> {
+  let found: TrashedFile | undefined;
+  for (const { trash, topdir } of trashDirectories(fullpath)) {
+    const infoDir = pathLib.join(trash, 'info');
+    let infoNames: string[];
+    try {
+      infoNames = await fsReaddir(infoDir);
+    } catch {
+      continue;
+    }
+    for (const infoName of infoNames) {
+      if (!infoName.endsWith('.trashinfo')) {
+        continue;
+      }
+      const infoPath = pathLib.join(infoDir, infoName);
+      const content = await fsReadFile(infoPath, 'utf8').catch(() => '');
+      const path = content.match(/^Path=(.*)$/m)?.[1];
+      const date = content.match(/^DeletionDate=(.*)$/m)?.[1];
+      if (!path || !date) {
+        continue;
+      }
+      let originalPath: string;
+      try {
+        originalPath = pathLib.resolve(topdir, decodeURIComponent(path));
+      } catch {
+        continue;
+      }
+      if (originalPath !== fullpath) {
+        continue;
+      }
+      const deletionDate = new Date(date);
+      if (found && found.deletionDate >= deletionDate) {
+        continue;
+      }
+      found = {
+        path: pathLib.join(
+          trash,
+          'files',
+          infoName.slice(0, -'.trashinfo'.length),
+        ),
+        infoPath,
+        deletionDate,
+      };
+    }
+  }
+  return found;
+}
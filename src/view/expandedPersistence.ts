@@ -0,0 +1,68 @@
+import { NodeUid } from '../source/source';
+import { fsExists, getJsonFileStore, JsonFileStore } from '../util';
+
+/**
+ * The expanded nodes of source in a workspace root
+ */
+type ExpandedRecord = {
+  time: number;
+  nodes: [uid: NodeUid, fullpath: string][];
+};
+
+type ExpandedData = Record<string, ExpandedRecord>;
+
+const maxRecords = 100;
+const maxNodesPerRecord = 1000;
+
+class ExpandedPersistence extends JsonFileStore<ExpandedData> {
+  /**
+   * Load the expanded nodes, the nodes whose path does not exist are pruned
+   */
+  async load(key: string): Promise<Map<NodeUid, string>> {
+    const record = (await this.getData())[key];
+    if (!record) {
+      return new Map();
+    }
+    const nodes = new Map<NodeUid, string>();
+    for (const [uid, fullpath] of record.nodes) {
+      if (await fsExists(fullpath)) {
+        nodes.set(uid, fullpath);
+      }
+    }
+    return nodes;
+  }
+
+  /**
+   * Save the expanded nodes, only keep the recently used records
+   */
+  async save(key: string, nodes: Map<NodeUid, string>) {
+    const data = await this.getData();
+    if (nodes.size) {
+      data[key] = {
+        time: Date.now(),
+        nodes: [...nodes].slice(0, maxNodesPerRecord),
+      };
+    } else {
+      delete data[key];
+    }
+    const keys = Object.keys(data);
+    if (keys.length > maxRecords) {
+      keys
+        .sort((a, b) => data[b].time - data[a].time)
+        .slice(maxRecords)
+        .forEach((key) => delete data[key]);
+    }
+    this.scheduleWrite();
+  }
+}
+
+/**
+ * Get the persistence of expanded nodes in the storage directory of extension
+ */
+export function getExpandedPersistence(storagePath: string) {
+  return getJsonFileStore(
+    storagePath,
+    'expanded.json',
+    (filepath) => new ExpandedPersistence(filepath, { writeDelay: 1000 }),
+  );
+}
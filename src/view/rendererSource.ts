@@ -107,6 +107,7 @@ export class RendererSource<TreeNode extends BaseTreeNode<TreeNode>> {
         if (typeof o === 'string') {
           return {
             nodes: getNodes([o]),
+            withParents: this.source.renderPathsWithParents,
           };
         } else {
           return {
@@ -144,21 +145,22 @@ export class RendererSource<TreeNode extends BaseTreeNode<TreeNode>> {
       }
     });
 
-    const finalNodes: TreeNode[] = [];
+    const finalNodeSet = new Set<TreeNode>();
 
     for (const node of nodeItems) {
-      finalNodes.push(...node.nodes);
+      node.nodes.forEach((n) => finalNodeSet.add(n));
       if (node.withParents) {
         for (const n of node.nodes) {
-          finalNodes.push(...this.view.flattenParents(n));
+          this.view.flattenParents(n).forEach((p) => finalNodeSet.add(p));
         }
       }
       if (node.withChildren) {
         for (const n of node.nodes) {
-          finalNodes.push(...this.view.flattenNode(n));
+          this.view.flattenNode(n).forEach((c) => finalNodeSet.add(c));
         }
       }
     }
+    const finalNodes = [...finalNodeSet];
 
     if (!finalNodes.length) {
       return Notifier.noop();
@@ -0,0 +1,125 @@
+import { HighlightCommand } from '../highlight/types';
+import { hlGroupManager } from '../highlight/manager';
+import { BaseTreeNode, NodeUid } from '../source/source';
+import { ViewRowPainter } from '../source/viewPainter';
+import { FilterType } from '../types';
+import { createFilterMatcher, FilterMatcher } from '../util';
+import { ViewNodeStores } from './viewNodeStores';
+import { ViewSource } from './viewSource';
+
+const hlg = hlGroupManager.linkGroup.bind(hlGroupManager);
+export const filterHighlights = {
+  match: hlg('FilterMatch', 'Search'),
+};
+
+/**
+ * Prune the flattened nodes to the nodes matched by a pattern and their parents
+ */
+export class ViewFilter<TreeNode extends BaseTreeNode<TreeNode>> {
+  type: FilterType = 'fuzzy';
+  pattern = '';
+  private matcher?: FilterMatcher;
+  private expandedSnapshot?: Map<NodeUid, boolean>;
+
+  constructor(
+    private view: ViewSource<TreeNode>,
+    private nodeStores: ViewNodeStores<TreeNode>,
+  ) {}
+
+  get active() {
+    return this.expandedSnapshot !== undefined;
+  }
+
+  /**
+   * Enter the filter mode, the expanded states will be restored by `stop()`
+   */
+  start(type: FilterType) {
+    if (!this.active) {
+      this.expandedSnapshot = this.nodeStores.snapshotExpanded();
+    }
+    this.type = type;
+  }
+
+  /**
+   * Update the pattern and render, keep the previous pattern when it is invalid
+   */
+  async update(pattern: string) {
+    if (!this.active || pattern === this.pattern) {
+      return;
+    }
+    let matcher: FilterMatcher | undefined;
+    try {
+      matcher = pattern ? createFilterMatcher(this.type, pattern) : undefined;
+    } catch {
+      return;
+    }
+    this.pattern = pattern;
+    this.matcher = matcher;
+    await this.view.render();
+  }
+
+  /**
+   * Leave the filter mode and restore the expanded states
+   */
+  async stop() {
+    if (!this.expandedSnapshot) {
+      return;
+    }
+    this.nodeStores.restoreExpanded(this.expandedSnapshot);
+    this.expandedSnapshot = undefined;
+    this.matcher = undefined;
+    this.pattern = '';
+    await this.view.source.load(this.view.rootNode);
+  }
+
+  matches(node: TreeNode) {
+    if (!this.matcher || node.isRoot) {
+      return;
+    }
+    return this.matcher(node.name);
+  }
+
+  filterNodes(nodes: TreeNode[]) {
+    if (!this.matcher) {
+      return nodes;
+    }
+    const kept = new Set<TreeNode>();
+    for (const node of nodes) {
+      if (node.isRoot) {
+        kept.add(node);
+      } else if (this.matches(node)) {
+        kept.add(node);
+        for (const parent of this.view.flattenParents(node)) {
+          kept.add(parent);
+        }
+      }
+    }
+    return nodes.filter((node) => kept.has(node));
+  }
+
+  /**
+   * Add the name of node to row, the matched characters are highlighted
+   */
+  drawName(
+    row: ViewRowPainter,
+    node: TreeNode,
+    options: { hl?: string | HighlightCommand; unicode?: boolean } = {},
+  ) {
+    const matches = this.matches(node);
+    if (!matches?.length) {
+      row.add(node.name, options);
+      return;
+    }
+    const matched = new Set(matches);
+    let start = 0;
+    for (let i = 1; i <= node.name.length; i++) {
+      if (i === node.name.length || matched.has(i) !== matched.has(start)) {
+        row.add(node.name.slice(start, i), {
+          ...options,
+          hl: matched.has(start) ? filterHighlights.match : options.hl,
+        });
+        start = i;
+      }
+    }
+  }
+}
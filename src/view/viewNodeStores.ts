@@ -1,4 +1,6 @@
 import { BaseTreeNode, NodeUid } from '../source/source';
+import { debounceFn, isParentFolder } from '../util';
+import { getExpandedPersistence } from './expandedPersistence';
 import { ViewSource } from './viewSource';
 
 type CompactStatus = 'compact' | 'uncompact';
@@ -6,20 +8,27 @@ type CompactStatus = 'compact' | 'uncompact';
 type NodeStore = {
   expanded: boolean;
   compact: CompactStatus;
+  /**
+   * The fullpath of node, used to persist the expanded state
+   */
+  fullpath?: string;
 };
 
 export class ViewNodeStores<TreeNode extends BaseTreeNode<TreeNode>> {
   private internal = (() => {
     const internal = {
       records: new Map<NodeUid, NodeStore>(),
-      store(node: TreeNode): NodeStore {
-        if (!internal.records.has(node.uid)) {
-          internal.records.set(node.uid, {
+      storeByUid(uid: NodeUid): NodeStore {
+        if (!internal.records.has(uid)) {
+          internal.records.set(uid, {
             expanded: false,
             compact: 'uncompact',
           });
         }
-        return internal.records.get(node.uid)!;
+        return internal.records.get(uid)!;
+      },
+      store(node: TreeNode): NodeStore {
+        return internal.storeByUid(node.uid);
       },
       clear(): void {
         internal.records.clear();
@@ -39,6 +48,12 @@ export class ViewNodeStores<TreeNode extends BaseTreeNode<TreeNode>> {
   })();
 
   enabled: boolean;
+  persistEnabled: boolean;
+  /**
+   * The workspace roots have been restored from the persistence
+   */
+  private restoredKeys = new Set<string>();
+  private persistDebounce = debounceFn(500, () => this.persist());
 
   constructor(public viewSource: ViewSource<TreeNode>) {
     const context = viewSource.source.context;
@@ -56,31 +71,108 @@ export class ViewNodeStores<TreeNode extends BaseTreeNode<TreeNode>> {
     } else {
       this.enabled = true;
     }
+    this.persistEnabled =
+      this.enabled && viewSource.config.get<boolean>('persistExpanded')!;
     context.subscriptions.push(
       viewSource.source.explorer.events.on('open-pre', () => {
         if (!this.enabled) {
           this.internal.clear();
         }
       }),
+      this.persistDebounce,
     );
   }
 
+  private get persistKey() {
+    const { source } = this.viewSource;
+    return `${source.sourceType}:${source.root}`;
+  }
+
+  private get persistence() {
+    return getExpandedPersistence(this.viewSource.source.context.storagePath);
+  }
+
+  /**
+   * Restore the expanded states of the workspace root, only once for each root
+   */
+  async restorePersisted() {
+    const key = this.persistKey;
+    if (!this.persistEnabled || this.restoredKeys.has(key)) {
+      return;
+    }
+    for (const [uid, fullpath] of await this.persistence.load(key)) {
+      const store = this.internal.storeByUid(uid);
+      store.expanded = true;
+      store.fullpath = fullpath;
+    }
+    this.restoredKeys.add(key);
+  }
+
+  private async persist() {
+    // avoid overwriting the persisted states that have not been restored,
+    // e.g. the root has been changed by the cd action
+    await this.restorePersisted();
+    const { source, rootNode } = this.viewSource;
+    const nodes = new Map<NodeUid, string>();
+    for (const [uid, store] of this.internal.records) {
+      if (
+        store.expanded &&
+        store.fullpath &&
+        uid !== rootNode.uid &&
+        isParentFolder(source.root, store.fullpath)
+      ) {
+        nodes.set(uid, store.fullpath);
+      }
+    }
+    await this.persistence.save(this.persistKey, nodes);
+  }
+
+  private requestPersist() {
+    if (this.persistEnabled) {
+      this.persistDebounce();
+    }
+  }
+
   setExpanded(node: TreeNode, expanded: boolean) {
     expanded ? this.expand(node) : this.collapse(node);
   }
 
   expand(node: TreeNode) {
     this.internal.set(node, 'expanded', true);
+    this.internal.set(node, 'fullpath', node.fullpath);
+    this.requestPersist();
   }
 
   collapse(node: TreeNode) {
     this.internal.set(node, 'expanded', false);
+    this.requestPersist();
   }
 
   isExpanded(node: TreeNode) {
     return this.internal.get(node, 'expanded');
   }
 
+  /**
+   * Copy the expanded states of all nodes
+   */
+  snapshotExpanded(): Map<NodeUid, boolean> {
+    const snapshot = new Map<NodeUid, boolean>();
+    for (const [uid, store] of this.internal.records) {
+      snapshot.set(uid, store.expanded);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Restore the expanded states from `snapshotExpanded()`
+   */
+  restoreExpanded(snapshot: Map<NodeUid, boolean>) {
+    for (const [uid, store] of this.internal.records) {
+      store.expanded = snapshot.get(uid) ?? false;
+    }
+    this.requestPersist();
+  }
+
   setCompact(node: TreeNode, compact: CompactStatus) {
     this.internal.set(node, 'compact', compact);
   }
@@ -6,6 +6,7 @@ import { BaseTreeNode, ExplorerSource, SourceOptions } from '../source/source';
 import { SourcePainters } from '../source/sourcePainters';
 import { rendererExplorerSymbol } from './rendererExplorer';
 import { RendererSource, rendererSourceSymbol } from './rendererSource';
+import { ViewFilter } from './viewFilter';
 import { ViewNodeStores } from './viewNodeStores';
 
 export class ViewSource<
@@ -33,6 +34,7 @@ export class ViewSource<
   }
 
   private readonly nodeStores: ViewNodeStores<TreeNode>;
+  readonly filter: ViewFilter<TreeNode>;
 
   rootExpandedForOpen = false;
 
@@ -43,6 +45,7 @@ export class ViewSource<
   ) {
     this.explorer = this.source.explorer;
     this.nodeStores = new ViewNodeStores(this);
+    this.filter = new ViewFilter(this, this.nodeStores);
     this.sourcePainters = new SourcePainters<TreeNode>(
       this.source,
       this.columnRegistrar,
@@ -76,8 +79,9 @@ export class ViewSource<
     this.rootExpandedForOpen = rootExpandedForOpen;
   }
 
-  bootOpen() {
+  async bootOpen() {
     this.nodeStores.setExpanded(this.rootNode, this.rootExpandedForOpen);
+    await this.nodeStores.restorePersisted();
   }
 
   async load(node: TreeNode) {
@@ -241,13 +245,20 @@ export class ViewSource<
       }
     }
 
-    return result;
+    return this.filter.filterNodes(result);
   }
 
   isExpanded(node: TreeNode) {
     return this.nodeStores.isExpanded(node);
   }
 
+  /**
+   * Set the expanded state without loading and rendering
+   */
+  setExpanded(node: TreeNode, expanded: boolean) {
+    this.nodeStores.setExpanded(node, expanded);
+  }
+
   // render
   private async expandRender(node: TreeNode) {
     if (this.isHelpUI) {